@@ -0,0 +1,97 @@
+import { randomUUID } from 'node:crypto';
+import type { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import { isCanvasDocEmpty } from '../src/collaboration/canvasCrdt';
+import {
+  decodeUpdate,
+  encodeUpdate,
+  isPresence,
+  parseMessage,
+  type ClientMessage,
+  type Peer,
+  type Presence,
+  type ServerMessage,
+} from '../src/collaboration/protocol';
+
+// WebSocket close code for a message the relay cannot use (RFC 6455 "unsupported data")
+const INVALID_MESSAGE = 1003;
+
+interface Room {
+  doc: Y.Doc;
+  clients: Map<WebSocket, { clientId: string; presence: Presence | null }>;
+}
+
+/**
+ * Relays canvas changes and presence between the clients in a room, for local development.
+ * Each room keeps the merged canvas in memory, so clients joining later start from it; a room
+ * is dropped once its last client has left.
+ */
+export class CollaborationRelay {
+  private readonly rooms = new Map<string, Room>();
+
+  connect(socket: WebSocket, roomId: string): void {
+    const room = this.rooms.get(roomId) ?? { doc: new Y.Doc(), clients: new Map() };
+    this.rooms.set(roomId, room);
+    const clientId = randomUUID();
+    room.clients.set(socket, { clientId, presence: null });
+
+    const peers = [...room.clients.values()].flatMap((client): Peer[] =>
+      client.presence ? [{ clientId: client.clientId, presence: client.presence }] : []
+    );
+    this.send(socket, {
+      type: 'welcome',
+      clientId,
+      update: encodeUpdate(Y.encodeStateAsUpdate(room.doc)),
+      isEmpty: isCanvasDocEmpty(room.doc),
+      peers,
+    });
+
+    socket.on('message', (data) => {
+      const message = parseMessage<ClientMessage>(data.toString());
+      if (message?.type === 'update') {
+        // A malformed update is the client's fault: it is disconnected, the room carries on
+        if (typeof message.update !== 'string') {
+          socket.close(INVALID_MESSAGE, 'Invalid update');
+          return;
+        }
+        try {
+          Y.applyUpdate(room.doc, decodeUpdate(message.update));
+        } catch {
+          socket.close(INVALID_MESSAGE, 'Invalid update');
+          return;
+        }
+        this.broadcast(room, socket, { type: 'update', update: message.update });
+      } else if (message?.type === 'presence') {
+        if (message.presence !== null && !isPresence(message.presence)) {
+          socket.close(INVALID_MESSAGE, 'Invalid presence');
+          return;
+        }
+        room.clients.set(socket, { clientId, presence: message.presence });
+        this.broadcast(room, socket, { type: 'presence', clientId, presence: message.presence });
+      }
+    });
+
+    socket.on('close', () => {
+      room.clients.delete(socket);
+      this.broadcast(room, socket, { type: 'presence', clientId, presence: null });
+      if (room.clients.size === 0) {
+        room.doc.destroy();
+        this.rooms.delete(roomId);
+      }
+    });
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private broadcast(room: Room, sender: WebSocket, message: ServerMessage): void {
+    room.clients.forEach((_, socket) => {
+      if (socket !== sender) {
+        this.send(socket, message);
+      }
+    });
+  }
+}
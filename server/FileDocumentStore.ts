@@ -0,0 +1,77 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { sameDocument, type DocumentStore } from '../src/persistence/documentStore/DocumentStore';
+
+/**
+ * File-backed document store for local development.
+ * Each collection is a single JSON file mapping keys to documents. Writes are serialized
+ * and go through a temporary file, so a crash never leaves a half-written collection behind.
+ */
+export class FileDocumentStore implements DocumentStore {
+  private readonly directory: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const documents = await this.readCollection(collection);
+    return documents[key] as T | undefined;
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.update(collection, (documents) => {
+      documents[key] = value;
+    });
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.update(collection, (documents) => {
+      delete documents[key];
+    });
+  }
+
+  async putIfUnchanged<T>(collection: string, key: string, expected: T | undefined, value: T): Promise<boolean> {
+    let written = false;
+    await this.update(collection, (documents) => {
+      written = sameDocument(documents[key], expected);
+      if (written) {
+        documents[key] = value;
+      }
+    });
+    return written;
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return Object.values(await this.readCollection(collection)) as T[];
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.directory, `${encodeURIComponent(collection)}.json`);
+  }
+
+  private async readCollection(collection: string): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse(await readFile(this.filePath(collection), 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw err;
+    }
+  }
+
+  private update(collection: string, change: (documents: Record<string, unknown>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const documents = await this.readCollection(collection);
+      change(documents);
+      await mkdir(this.directory, { recursive: true });
+      const file = this.filePath(collection);
+      await writeFile(`${file}.tmp`, JSON.stringify(documents, null, 2));
+      await rename(`${file}.tmp`, file);
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
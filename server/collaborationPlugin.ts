@@ -0,0 +1,42 @@
+import type { Plugin } from 'vite';
+import { WebSocketServer } from 'ws';
+import { COLLABORATION_ROUTE } from '../src/collaboration/protocol';
+import { CollaborationRelay } from './CollaborationRelay';
+
+/**
+ * Serves the collaboration relay from the dev server, so several browsers can edit one diagram
+ * during local development (used by `CollaborationClient`).
+ *
+ *   WebSocket  /__collaboration/:room   join a room
+ *
+ * Other upgrade requests, such as Vite's own hot module replacement, are left alone.
+ */
+export const collaborationPlugin = (): Plugin => ({
+  name: 'collaboration-relay',
+  apply: 'serve',
+  configureServer(server) {
+    const relay = new CollaborationRelay();
+    const sockets = new WebSocketServer({ noServer: true });
+
+    server.httpServer?.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url ?? '', 'http://localhost');
+      if (!url.pathname.startsWith(`${COLLABORATION_ROUTE}/`)) {
+        return;
+      }
+      let roomId: string;
+      try {
+        roomId = decodeURIComponent(url.pathname.slice(COLLABORATION_ROUTE.length + 1));
+      } catch {
+        // A malformed escape in the room id
+        socket.destroy();
+        return;
+      }
+      if (!roomId) {
+        socket.destroy();
+        return;
+      }
+      sockets.handleUpgrade(req, socket, head, (ws) => relay.connect(ws, roomId));
+    });
+    server.httpServer?.on('close', () => sockets.close());
+  },
+});
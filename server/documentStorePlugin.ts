@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { FileDocumentStore } from './FileDocumentStore';
+
+const ROUTE = '/__document-store';
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// A request the client got wrong; answered with 400 and the message instead of 500
+class BadRequestError extends Error {}
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  try {
+    return JSON.parse(await readBody(req));
+  } catch (err) {
+    throw err instanceof SyntaxError ? new BadRequestError('The request body is not valid JSON.') : err;
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, value: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(value === undefined ? '' : JSON.stringify(value));
+};
+
+/**
+ * Serves a file-backed document store from the dev server, so the browser can persist
+ * diagrams to disk during local development (used by `HttpDocumentStore`).
+ *
+ *   GET    /__document-store/:collection        list documents
+ *   GET    /__document-store/:collection/:key   read a document (404 when missing)
+ *   PUT    /__document-store/:collection/:key   write a document
+ *   POST   /__document-store/:collection/:key   write a document if unchanged: `{ expected, value }`
+ *                                               in, `{ written }` out
+ *   DELETE /__document-store/:collection/:key   delete a document
+ */
+export const documentStorePlugin = (directory: string): Plugin => {
+  const store = new FileDocumentStore(directory);
+
+  return {
+    name: 'document-store',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(ROUTE, async (req, res) => {
+        try {
+          const [collection, key] = (req.url ?? '')
+            .split('?')[0]
+            .split('/')
+            .filter(Boolean)
+            .map(decodeURIComponent);
+
+          if (!collection) {
+            sendJson(res, 400, { error: 'A collection is required.' });
+          } else if (req.method === 'GET' && key === undefined) {
+            sendJson(res, 200, await store.list(collection));
+          } else if (req.method === 'GET') {
+            const document = await store.get(collection, key);
+            sendJson(res, document === undefined ? 404 : 200, document ?? { error: 'Not found.' });
+          } else if (req.method === 'PUT' && key !== undefined) {
+            await store.put(collection, key, await readJson(req));
+            sendJson(res, 204, undefined);
+          } else if (req.method === 'POST' && key !== undefined) {
+            const body = await readJson(req);
+            if (typeof body !== 'object' || body === null) {
+              throw new BadRequestError('The request body must be an object with `expected` and `value`.');
+            }
+            const { expected, value } = body as { expected?: unknown; value?: unknown };
+            sendJson(res, 200, { written: await store.putIfUnchanged(collection, key, expected, value) });
+          } else if (req.method === 'DELETE' && key !== undefined) {
+            await store.delete(collection, key);
+            sendJson(res, 204, undefined);
+          } else {
+            sendJson(res, 405, { error: 'Method not allowed.' });
+          }
+        } catch (err) {
+          if (err instanceof BadRequestError) {
+            sendJson(res, 400, { error: err.message });
+            return;
+          }
+          // A malformed escape in the collection or key
+          if (err instanceof URIError) {
+            sendJson(res, 400, { error: 'The collection or key is not validly encoded.' });
+            return;
+          }
+          server.config.logger.error(`[document-store] ${err instanceof Error ? err.message : String(err)}`);
+          sendJson(res, 500, { error: 'The document store request failed.' });
+        }
+      });
+    },
+  };
+};
@@ -1,10 +1,10 @@
 import './App.css'
-import NewBusinessModelCanvas from './components/NewBusinessModelCanvas'
+import Workspace from './components/Workspace'
 
 function App() {
   return (
     <>
-      <NewBusinessModelCanvas />
+      <Workspace />
     </>
   )
 }
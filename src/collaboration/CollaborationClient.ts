@@ -0,0 +1,159 @@
+import * as Y from 'yjs';
+import {
+  COLLABORATION_ROUTE,
+  decodeUpdate,
+  encodeUpdate,
+  parseMessage,
+  type ClientMessage,
+  type Peer,
+  type Presence,
+  type ServerMessage,
+} from './protocol';
+
+// `resyncing`: a change from the room could not be applied, so the client reconnects to reload the room
+export type CollaborationStatus = 'connecting' | 'connected' | 'reconnecting' | 'resyncing';
+
+export interface CollaborationEvents {
+  // The room's canvas has arrived; it is empty when nobody has drawn in the room yet
+  onJoined: (isEmpty: boolean) => void;
+  // Collaborators changed the shared canvas
+  onRemoteChange: () => void;
+  onPeersChange: (peers: Peer[]) => void;
+  onStatusChange: (status: CollaborationStatus) => void;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * The WebSocket URL of a room: on `VITE_COLLABORATION_URL` when set, otherwise on the relay
+ * served by the Vite dev server (see `server/collaborationPlugin.ts`).
+ */
+export const collaborationUrl = (roomId: string): string => {
+  const { VITE_COLLABORATION_URL } = import.meta.env;
+  const base = VITE_COLLABORATION_URL ?? `${location.protocol === 'https:' ? 'wss:' : 'ws:'}//${location.host}${COLLABORATION_ROUTE}`;
+  return `${base.replace(/\/$/, '')}/${encodeURIComponent(roomId)}`;
+};
+
+/**
+ * Keeps a shared canvas document in sync with a room on the relay. Local changes written to
+ * `doc` are sent as they happen; changes from collaborators are applied to `doc` with this
+ * client as the origin. After a dropped connection the client reconnects and exchanges
+ * everything both sides missed.
+ */
+export class CollaborationClient {
+  readonly doc = new Y.Doc();
+  private readonly url: string;
+  private readonly events: CollaborationEvents;
+  private socket: WebSocket | undefined;
+  private peers = new Map<string, Presence>();
+  private presence: Presence | null = null;
+  private hasJoined = false;
+  private isClosed = false;
+  private isResyncing = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(url: string, events: CollaborationEvents) {
+    this.url = url;
+    this.events = events;
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== this) {
+        this.send({ type: 'update', update: encodeUpdate(update) });
+      }
+    });
+  }
+
+  connect(): void {
+    this.events.onStatusChange(this.isResyncing ? 'resyncing' : this.hasJoined ? 'reconnecting' : 'connecting');
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onmessage = (event) => {
+      const message = parseMessage<ServerMessage>(String(event.data));
+      if (message) {
+        this.receive(message);
+      }
+    };
+    socket.onclose = () => {
+      if (this.isClosed) {
+        return;
+      }
+      this.events.onStatusChange(this.isResyncing ? 'resyncing' : 'reconnecting');
+      this.reconnectTimeout = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    };
+  }
+
+  setPresence(presence: Presence | null): void {
+    this.presence = presence;
+    this.send({ type: 'presence', presence });
+  }
+
+  close(): void {
+    this.isClosed = true;
+    clearTimeout(this.reconnectTimeout);
+    this.socket?.close();
+    this.doc.destroy();
+  }
+
+  private receive(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome': {
+        this.peers = new Map(message.peers.map((peer) => [peer.clientId, peer.presence]));
+        this.events.onPeersChange(this.peerList());
+        if (!this.applyRemoteUpdate(message.update)) {
+          return;
+        }
+        this.isResyncing = false;
+        this.events.onStatusChange('connected');
+        if (this.hasJoined) {
+          // Send what changed here while disconnected
+          this.send({ type: 'update', update: encodeUpdate(Y.encodeStateAsUpdate(this.doc)) });
+          this.events.onRemoteChange();
+        } else {
+          this.hasJoined = true;
+          this.events.onJoined(message.isEmpty);
+        }
+        if (this.presence) {
+          this.send({ type: 'presence', presence: this.presence });
+        }
+        break;
+      }
+      case 'update':
+        if (this.applyRemoteUpdate(message.update)) {
+          this.events.onRemoteChange();
+        }
+        break;
+      case 'presence':
+        if (message.presence) {
+          this.peers.set(message.clientId, message.presence);
+        } else {
+          this.peers.delete(message.clientId);
+        }
+        this.events.onPeersChange(this.peerList());
+        break;
+    }
+  }
+
+  // Applies an update from the relay. A corrupt one leaves the document behind the room, so the
+  // client reconnects to get the room's whole canvas again.
+  private applyRemoteUpdate(encoded: string): boolean {
+    try {
+      Y.applyUpdate(this.doc, decodeUpdate(encoded), this);
+      return true;
+    } catch (err) {
+      console.error('Failed to apply a collaboration update:', err);
+      this.isResyncing = true;
+      this.events.onStatusChange('resyncing');
+      this.socket?.close();
+      return false;
+    }
+  }
+
+  private peerList(): Peer[] {
+    return [...this.peers].map(([clientId, presence]) => ({ clientId, presence }));
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import * as Y from 'yjs';
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+
+/**
+ * The canvas as a Yjs document, so concurrent edits by several collaborators merge without conflicts.
+ *
+ * The document holds two maps, `nodes` and `edges`, from element id to the element's fields.
+ * Each field is its own last-writer-wins entry, so one collaborator moving an entity while
+ * another edits its properties keeps both changes. Names are shared text, merged character by
+ * character, and entity and relationship properties are merged property by property.
+ * Selection and measured sizes are local to each canvas and never shared.
+ */
+
+type CanvasElement = EntityNode | RelationshipEdge;
+type ElementEntries = Y.Map<Y.Map<unknown>>;
+type JsonRecord = Record<string, unknown>;
+
+// React Flow fields that describe one canvas's view of an element rather than the element itself
+const LOCAL_FIELDS = new Set(['selected', 'dragging', 'width', 'height', 'positionAbsolute', 'resizing']);
+// Fields of `data` merged character by character
+const TEXT_FIELDS = new Set(['name']);
+// Fields of `data` merged key by key
+const MAP_FIELDS = new Set(['properties']);
+
+const isRecord = (value: unknown): value is JsonRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deep equality of JSON values, where a key holding undefined counts as absent
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const toJson = (value: unknown): unknown => (value instanceof Y.AbstractType ? value.toJSON() : value);
+
+const sharedFields = (element: CanvasElement): JsonRecord =>
+  Object.fromEntries(Object.entries(element).filter(([key, value]) => !LOCAL_FIELDS.has(key) && value !== undefined));
+
+const localFields = (element: CanvasElement): JsonRecord =>
+  Object.fromEntries(Object.entries(element).filter(([key]) => LOCAL_FIELDS.has(key)));
+
+const nodeEntries = (doc: Y.Doc): ElementEntries => doc.getMap('nodes');
+const edgeEntries = (doc: Y.Doc): ElementEntries => doc.getMap('edges');
+
+// Applies the edit from `previous` to `next` (one changed span) to shared text
+const writeText = (map: Y.Map<unknown>, key: string, previous: unknown, next: string): void => {
+  const text = map.get(key);
+  if (!(text instanceof Y.Text)) {
+    map.set(key, new Y.Text(next));
+    return;
+  }
+  const current = text.toString();
+  if (current === next) {
+    return;
+  }
+  const base = typeof previous === 'string' ? previous : current;
+  let start = 0;
+  while (start < base.length && start < next.length && base[start] === next[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < base.length - start && end < next.length - start && base[base.length - 1 - end] === next[next.length - 1 - end]) {
+    end++;
+  }
+  // Collaborators' edits since `previous` may have shortened the text
+  const index = Math.min(start, text.length);
+  text.delete(index, Math.min(base.length - end - start, text.length - index));
+  text.insert(index, next.slice(start, next.length - end));
+};
+
+// Writes the keys that changed from `previous` to `next`, skipping those the document already holds
+const writeRecord = (map: Y.Map<unknown>, previous: JsonRecord, next: JsonRecord, nested: (key: string, value: unknown) => boolean): void => {
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((key) => {
+    const value = next[key];
+    if (isEqual(previous[key], value) || isEqual(toJson(map.get(key)), value)) {
+      return;
+    }
+    if (value === undefined) {
+      map.delete(key);
+    } else if (!nested(key, value)) {
+      map.set(key, value);
+    }
+  });
+};
+
+const writeData = (entry: Y.Map<unknown>, previous: JsonRecord, next: JsonRecord): void => {
+  let data = entry.get('data');
+  if (!(data instanceof Y.Map)) {
+    data = entry.set('data', new Y.Map());
+    previous = {};
+  }
+  const map = data as Y.Map<unknown>;
+  writeRecord(map, previous, next, (key, value) => {
+    if (TEXT_FIELDS.has(key) && typeof value === 'string') {
+      writeText(map, key, previous[key], value);
+      return true;
+    }
+    if (MAP_FIELDS.has(key) && isRecord(value)) {
+      const nestedMap = map.get(key);
+      if (nestedMap instanceof Y.Map) {
+        writeRecord(nestedMap as Y.Map<unknown>, isRecord(previous[key]) ? previous[key] : {}, value, () => false);
+      } else {
+        writeRecord(map.set(key, new Y.Map()), {}, value, () => false);
+      }
+      return true;
+    }
+    return false;
+  });
+};
+
+const writeElement = (entries: ElementEntries, previous: CanvasElement | undefined, next: CanvasElement): void => {
+  let entry = entries.get(next.id);
+  let before = previous ? sharedFields(previous) : {};
+  if (!entry) {
+    // New, or deleted by a collaborator while it was being edited here: (re)create it in full
+    entry = entries.set(next.id, new Y.Map());
+    before = {};
+  }
+  const { data: previousData, ...previousFields } = before;
+  const { data: nextData, ...nextFields } = sharedFields(next);
+  writeRecord(entry, previousFields, nextFields, () => false);
+  writeData(entry, isRecord(previousData) ? previousData : {}, isRecord(nextData) ? nextData : {});
+};
+
+const writeElements = (entries: ElementEntries, previous: CanvasElement[], next: CanvasElement[]): void => {
+  const previousById = new Map(previous.map((element) => [element.id, element]));
+  const nextIds = new Set(next.map((element) => element.id));
+  next.forEach((element) => {
+    // Elements React Flow left untouched keep their identity
+    if (previousById.get(element.id) !== element) {
+      writeElement(entries, previousById.get(element.id), element);
+    }
+  });
+  previous.forEach((element) => {
+    if (!nextIds.has(element.id)) {
+      entries.delete(element.id);
+    }
+  });
+};
+
+/**
+ * Whether nothing has been drawn in the document yet.
+ */
+export const isCanvasDocEmpty = (doc: Y.Doc): boolean => nodeEntries(doc).size === 0 && edgeEntries(doc).size === 0;
+
+/**
+ * Writes the local changes from `previous` to `next` into the document, in one transaction.
+ * Only the fields that changed locally are written, so changes collaborators made in the
+ * meantime are kept.
+ */
+export const writeCanvasChanges = (doc: Y.Doc, previous: CanvasState, next: CanvasState, origin?: unknown): void => {
+  doc.transact(() => {
+    writeElements(nodeEntries(doc), previous.nodes, next.nodes);
+    writeElements(edgeEntries(doc), previous.edges, next.edges);
+  }, origin);
+};
+
+const readElements = <T extends CanvasElement>(entries: ElementEntries, local: T[]): T[] => {
+  const localById = new Map(local.map((element) => [element.id, element]));
+  const shared = new Map([...entries.entries()].map(([id, entry]) => [id, entry.toJSON() as JsonRecord]));
+  // Elements keep their local order (which is their stacking order); new ones go on top
+  const ids = [...local.map((element) => element.id).filter((id) => shared.has(id)), ...[...shared.keys()].filter((id) => !localById.has(id))];
+  return ids.map((id) => {
+    const element = localById.get(id);
+    const value = shared.get(id)!;
+    if (element && isEqual(sharedFields(element), value)) {
+      return element;
+    }
+    return { ...(element ? localFields(element) : {}), ...value, id } as T;
+  });
+};
+
+/**
+ * Reads the canvas from the document. Elements that did not change are returned as they are in
+ * `current`, and changed ones keep their local selection and size. Connectors whose entity was
+ * deleted by a collaborator are left out.
+ */
+export const readCanvasState = (doc: Y.Doc, current: CanvasState): CanvasState => {
+  const nodes = readElements(nodeEntries(doc), current.nodes);
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges = readElements(edgeEntries(doc), current.edges).filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  return { nodes, edges };
+};
@@ -0,0 +1,85 @@
+/**
+ * Messages exchanged between collaborating canvases and the relay server, as JSON text frames.
+ * Yjs updates travel base64-encoded inside them.
+ *
+ *   client -> relay  `update`    a change to the shared canvas
+ *                    `presence`  the sender's cursor and selection (null when it leaves)
+ *   relay -> client  `welcome`   the client's id, the room's canvas and everyone present
+ *                    `update`    a change made by another client
+ *                    `presence`  another client's presence (null when it left)
+ */
+
+// Where a collaborator is and what they have selected, shown to the others
+export interface Presence {
+  name: string;
+  // Pointer position in flow coordinates, absent while it is off the canvas
+  cursor?: { x: number; y: number };
+  // Ids of the selected entities
+  selection: string[];
+}
+
+const PEER_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#9333EA', '#0891B2', '#DB2777', '#4F46E5'];
+
+/**
+ * The colour a collaborator's cursor and selection are shown in, the same on every canvas.
+ */
+export const peerColor = (clientId: string): string => {
+  let hash = 0;
+  for (const char of clientId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+export interface Peer {
+  clientId: string;
+  presence: Presence;
+}
+
+export type ClientMessage =
+  | { type: 'update'; update: string }
+  | { type: 'presence'; presence: Presence | null };
+
+export type ServerMessage =
+  | { type: 'welcome'; clientId: string; update: string; isEmpty: boolean; peers: Peer[] }
+  | { type: 'update'; update: string }
+  | { type: 'presence'; clientId: string; presence: Presence | null };
+
+// Path of the development relay on the Vite dev server, followed by the room id
+export const COLLABORATION_ROUTE = '/__collaboration';
+
+export const encodeUpdate = (update: Uint8Array): string => {
+  let binary = '';
+  update.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string): Uint8Array => Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks that a presence received from another party has the expected shape, as it is shown
+ * on other canvases as is.
+ */
+export const isPresence = (value: unknown): value is Presence => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { name, cursor, selection } = value as Record<string, unknown>;
+  const point = typeof cursor === 'object' && cursor !== null ? (cursor as Record<string, unknown>) : undefined;
+  const isCursor = cursor === undefined || (point !== undefined && isFiniteNumber(point.x) && isFiniteNumber(point.y));
+  return typeof name === 'string' && isCursor && Array.isArray(selection) && selection.every((id) => typeof id === 'string');
+};
+
+/**
+ * Parses a message, returning undefined for anything that is not one of the known message types.
+ */
+export const parseMessage = <T extends ClientMessage | ServerMessage>(data: string): T | undefined => {
+  try {
+    const message = JSON.parse(data);
+    return typeof message === 'object' && message !== null && typeof message.type === 'string' ? (message as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
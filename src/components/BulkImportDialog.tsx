@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import type { CanvasState } from '../models/CanvasModels';
+import { ENTITY_REGISTRY, ENTITY_TYPES, getEntityDefinition, type EntityPropertyDefinition } from '../models/entityRegistry';
+import { formatPropertyValue } from '../models/entityProperties';
+import {
+  planBulkImport,
+  suggestMapping,
+  type BulkImportPlan,
+  type ImportLayout,
+  type ImportMapping,
+} from '../graph/bulkImport';
+import { parseDelimited, type DelimitedTable } from '../utils/csv';
+
+interface BulkImportDialogProps {
+  state: CanvasState;
+  onImport: (plan: BulkImportPlan) => void;
+  onClose: () => void;
+}
+
+type Step = 'source' | 'mapping' | 'preview';
+
+// Rows shown in the preview; the rest are only counted
+const PREVIEW_ROWS = 10;
+
+const selectClassName = 'w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-300';
+
+/**
+ * Three-step wizard for adding many entities at once from CSV or TSV: load the table, map its
+ * columns to entity type, name and properties (optionally connecting every row to an existing
+ * entity), then preview what will be added.
+ */
+const BulkImportDialog: React.FC<BulkImportDialogProps> = ({ state, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('source');
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+  const [table, setTable] = useState<DelimitedTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [anchorId, setAnchorId] = useState('');
+  const [layout, setLayout] = useState<ImportLayout>('grid');
+
+  const plan = useMemo(
+    () => (table && mapping ? planBulkImport(state, table, { mapping, anchorId: anchorId || undefined, layout }) : null),
+    [state, table, mapping, anchorId, layout]
+  );
+
+  // Properties that can be mapped: those of the chosen type, or of every type when a column gives the type
+  const mappableProperties = useMemo((): { key: string; label: string }[] => {
+    if (!mapping) {
+      return [];
+    }
+    const definitions: EntityPropertyDefinition[] = mapping.typeColumn !== undefined
+      ? ENTITY_TYPES.flatMap((type): EntityPropertyDefinition[] => getEntityDefinition(type)?.properties ?? [])
+      : getEntityDefinition(mapping.entityType)?.properties ?? [];
+    return [...new Map(definitions.map((definition) => [definition.key, definition])).values()];
+  }, [mapping]);
+
+  const anchors = useMemo(
+    () =>
+      state.nodes
+        .filter((node) => node.data.aliasOf === undefined)
+        .map((node) => ({ id: node.id, description: `${node.data.name || '(unnamed)'} (${node.data.label})` }))
+        .sort((a, b) => a.description.localeCompare(b.description)),
+    [state.nodes]
+  );
+  const anchor = state.nodes.find((node) => node.id === anchorId);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setText(await file.text());
+      setError('');
+    }
+  };
+
+  const handleReadTable = () => {
+    const parsed = parseDelimited(text);
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      setError('The table needs a header row followed by at least one row of data.');
+      return;
+    }
+    setTable(parsed);
+    setMapping(suggestMapping(parsed.headers));
+    setStep('mapping');
+  };
+
+  const updateMapping = (patch: Partial<ImportMapping>) => setMapping((current) => current && { ...current, ...patch });
+
+  const handleTypeChange = (value: string) => {
+    const [kind, target] = value.split(':');
+    if (kind === 'column') {
+      updateMapping({ typeColumn: Number(target) });
+    } else {
+      updateMapping({ typeColumn: undefined, entityType: target as ImportMapping['entityType'] });
+    }
+  };
+
+  const handlePropertyChange = (key: string, value: string) => {
+    if (!mapping) {
+      return;
+    }
+    const others = Object.fromEntries(Object.entries(mapping.propertyColumns).filter(([other]) => other !== key));
+    updateMapping({ propertyColumns: value === '' ? others : { ...others, [key]: Number(value) } });
+  };
+
+  const describeConnection = (id: string): string => {
+    const edge = plan?.state.edges.find((candidate) => candidate.source === id);
+    if (!edge?.data || !anchor) {
+      return '';
+    }
+    const name = anchor.data.name || '(unnamed)';
+    return edge.data.direction === 'reverse' ? `← ${edge.data.relationshipType} ← ${name}` : `${edge.data.relationshipType} → ${name}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-3xl w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Import Entities from CSV</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <ol className="flex space-x-4 mb-4 text-sm">
+          {(['source', 'mapping', 'preview'] as Step[]).map((name, index) => (
+            <li key={name} className={step === name ? 'font-semibold text-indigo-600' : 'text-gray-400'}>
+              {index + 1}. {name === 'source' ? 'Table' : name === 'mapping' ? 'Columns' : 'Preview'}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'source' && (
+          <>
+            <p className="text-sm text-gray-500 mb-2">
+              Paste rows copied from a spreadsheet, or upload a CSV or TSV file. The first row must hold the column names.
+            </p>
+            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFileChange} className="mb-3 text-sm" />
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setError('');
+              }}
+              rows={12}
+              className="w-full font-mono text-xs p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              placeholder={'name,role,startDate\nAda Lovelace,Engineer,2024-01-15'}
+            />
+            {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+          </>
+        )}
+
+        {step === 'mapping' && table && mapping && (
+          <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
+            <label className="text-sm text-gray-700">
+              Entity type
+              <select
+                value={mapping.typeColumn !== undefined ? `column:${mapping.typeColumn}` : `type:${mapping.entityType}`}
+                onChange={(e) => handleTypeChange(e.target.value)}
+                className={selectClassName}
+              >
+                {ENTITY_TYPES.map((type) => (
+                  <option key={type} value={`type:${type}`}>
+                    {ENTITY_REGISTRY[type].label}
+                  </option>
+                ))}
+                {table.headers.map((header, column) => (
+                  <option key={column} value={`column:${column}`}>
+                    From column "{header}"
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Name
+              <select
+                value={mapping.nameColumn}
+                onChange={(e) => updateMapping({ nameColumn: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {table.headers.map((header, column) => (
+                  <option key={column} value={column}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {mappableProperties.map((property) => (
+              <label key={property.key} className="text-sm text-gray-700">
+                {property.label}
+                <select
+                  value={mapping.propertyColumns[property.key] ?? ''}
+                  onChange={(e) => handlePropertyChange(property.key, e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Not imported</option>
+                  {table.headers.map((header, column) => (
+                    <option key={column} value={column}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="text-sm text-gray-700">
+              Connect every row to
+              <select value={anchorId} onChange={(e) => setAnchorId(e.target.value)} className={selectClassName}>
+                <option value="">Nothing</option>
+                {anchors.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.description}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <fieldset className="text-sm text-gray-700">
+              <legend>Arrangement</legend>
+              <div className="flex space-x-4 mt-1.5">
+                {(['grid', 'layered'] as ImportLayout[]).map((option) => (
+                  <label key={option} className="flex items-center space-x-1">
+                    <input type="radio" checked={layout === option} onChange={() => setLayout(option)} />
+                    <span>{option === 'grid' ? 'Grid' : 'Layers'}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+        )}
+
+        {step === 'preview' && plan && (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              {plan.state.nodes.length} {plan.state.nodes.length === 1 ? 'entity' : 'entities'} and {plan.state.edges.length}{' '}
+              {plan.state.edges.length === 1 ? 'connection' : 'connections'} will be added
+              {plan.skippedRows > 0 && `; ${plan.skippedRows} ${plan.skippedRows === 1 ? 'row is' : 'rows are'} skipped`}.
+            </p>
+            <div className="max-h-64 overflow-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-xs text-left">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-2 py-1">Name</th>
+                    <th className="px-2 py-1">Type</th>
+                    <th className="px-2 py-1">Properties</th>
+                    <th className="px-2 py-1">Connection</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.state.nodes.slice(0, PREVIEW_ROWS).map((node) => (
+                    <tr key={node.id} className="border-t border-gray-100">
+                      <td className="px-2 py-1 font-medium text-gray-800">{node.data.name}</td>
+                      <td className="px-2 py-1">{node.data.label}</td>
+                      <td className="px-2 py-1">
+                        {Object.entries(node.data.properties ?? {})
+                          .map(([key, value]) => `${key}: ${formatPropertyValue(value)}`)
+                          .join(', ')}
+                      </td>
+                      <td className="px-2 py-1">{describeConnection(node.id)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {plan.state.nodes.length > PREVIEW_ROWS && (
+                <p className="px-2 py-1 text-xs text-gray-500">…and {plan.state.nodes.length - PREVIEW_ROWS} more</p>
+              )}
+            </div>
+            {plan.issues.length > 0 && (
+              <ul className="mt-3 max-h-32 overflow-y-auto bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-0.5">
+                {plan.issues.map((issue, index) => (
+                  <li key={index}>
+                    Line {issue.line}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={() => setStep(step === 'preview' ? 'mapping' : 'source')}
+            disabled={step === 'source'}
+            className="px-4 py-2 text-indigo-600 font-semibold rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 disabled:opacity-0"
+          >
+            Back
+          </button>
+          {step === 'source' && (
+            <button
+              onClick={handleReadTable}
+              disabled={!text.trim()}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 disabled:opacity-50"
+            >
+              Next
+            </button>
+          )}
+          {step === 'mapping' && (
+            <button
+              onClick={() => setStep('preview')}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && plan && (
+            <button
+              onClick={() => onImport(plan)}
+              disabled={plan.state.nodes.length === 0}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportDialog;
@@ -1,19 +1,23 @@
-import React, { useCallback, useRef, type MouseEvent, type DragEvent, type FC } from 'react';
-import { Focus, Building2, Users, Truck, type LucideIcon, Trash2 } from 'lucide-react';
+import React, { createContext, useCallback, useContext, useRef, type MouseEvent, type DragEvent, type FC } from 'react';
+import { Focus, type LucideIcon, Trash2 } from 'lucide-react';
+import type { EntityNode, EntityNodeData, RelationshipEdge } from '../models/CanvasModels';
+import { ENTITY_REGISTRY, ENTITY_TYPES, isEntityType, type CustomNodeType } from '../models/entityRegistry';
+import type { CanvasAction } from '../store/canvasReducer';
+import { useCanvasHistory, type CanvasSnapshot } from './useCanvasHistory';
+import { useCanvasStore } from './useCanvasStore';
+import { generateUniqueId } from '../utils/ids';
 // Corrected imports for reactflow using CDN paths for single-file environment
 import ReactFlow, {
     ReactFlowProvider,
-    useNodesState,
-    useEdgesState,
-    addEdge,
     useReactFlow,
-    type Node,
     type Edge,
     type Connection,
     Handle,
     Position,
     type NodeProps,
     type OnConnect,
+    type NodeChange,
+    type EdgeChange,
 } from 'reactflow';
 
 // Since we can't rely on global library setup, we must define the minimal styles needed for reactflow handles
@@ -54,55 +58,28 @@ const reactFlowStyles = `
 `;
 
 
-// We must manually define a unique ID generator for nodes/edges
-const generateUniqueId = (prefix: string = 'rf'): string => {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-        return `${prefix}-${crypto.randomUUID()}`;
-    }
-    return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-};
-
-
 // --- Configuration & Types ---
 
-type EntityType = 'Company' | 'Employee' | 'Supplier';
+type EntityType = CustomNodeType;
 
 interface EntityConfig {
+    label: string;
     icon: LucideIcon;
     color: string;
     initialName: string;
     description: string;
 }
 
-// Data specific to our custom node (passed via data prop in RF Node)
-interface CustomNodeData {
-    type: EntityType;
-    name: string;
-    onNameChange: (id: string, newName: string) => void;
-    onNodeDelete: (id: string) => void;
-}
+// Node components change the canvas by dispatching actions, so node data stays plain JSON
+const CanvasDispatchContext = createContext<(action: CanvasAction) => void>(() => undefined);
 
-// Map configuration to entity types
-const ENTITY_CONFIG: Record<EntityType, EntityConfig> = {
-    Company: {
-        icon: Building2,
-        color: 'bg-indigo-500',
-        initialName: 'New Company',
-        description: 'The core business entity.',
-    },
-    Employee: {
-        icon: Users,
-        color: 'bg-green-500',
-        initialName: 'New Employee',
-        description: 'A resource entity.',
-    },
-    Supplier: {
-        icon: Truck,
-        color: 'bg-orange-500',
-        initialName: 'New Supplier',
-        description: 'An external partner entity.',
-    },
-};
+// Map configuration to entity types, derived from the entity registry
+const ENTITY_CONFIG = Object.fromEntries(
+    ENTITY_TYPES.map((type) => {
+        const { label, icon, color, description } = ENTITY_REGISTRY[type];
+        return [type, { label, icon, color: color.bg, initialName: `New ${label}`, description }];
+    })
+) as Record<EntityType, EntityConfig>;
 
 
 // --- Custom Node Component ---
@@ -110,9 +87,10 @@ const ENTITY_CONFIG: Record<EntityType, EntityConfig> = {
 /**
  * Draggable and editable node component used by React Flow.
  */
-const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
-    const { type, name, onNameChange, onNodeDelete } = data;
-    const { icon: Icon, color, description } = ENTITY_CONFIG[type];
+const CustomNode: FC<NodeProps<EntityNodeData>> = ({ id, type, data }) => {
+    const { name } = data;
+    const { label, icon: Icon, color, description } = ENTITY_CONFIG[type as EntityType];
+    const dispatch = useContext(CanvasDispatchContext);
     const inputRef = useRef<HTMLInputElement>(null);
 
     const handleDoubleClick = (): void => {
@@ -125,7 +103,7 @@ const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
     const handleBlur = (e: React.FocusEvent<HTMLInputElement>): void => {
         const newName = e.target.value.trim();
         if (newName !== name && newName.length > 0) {
-            onNameChange(id, newName);
+            dispatch({ type: 'updateNodeData', id, patch: { name: newName } });
         }
     };
 
@@ -135,7 +113,7 @@ const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
 
         // NOTE: In a production app, this should be replaced by a custom modal UI 
         if (window.confirm(`Are you sure you want to delete the entity: ${name}?`)) {
-            onNodeDelete(id);
+            dispatch({ type: 'removeNodes', ids: [id] });
         }
     };
 
@@ -152,7 +130,7 @@ const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
             <div className={`flex items-center justify-between ${color} text-white p-3 rounded-t-lg`}>
                 <div className="flex items-center">
                     <Icon className="w-6 h-6 mr-3" />
-                    <span className="text-lg font-bold">{type}</span>
+                    <span className="text-lg font-bold">{label}</span>
                 </div>
                 {/* Delete button */}
                 <button
@@ -169,7 +147,7 @@ const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
                     ref={inputRef}
                     type="text"
                     value={name}
-                    onChange={(e) => onNameChange(id, e.target.value)}
+                    onChange={(e) => dispatch({ type: 'updateNodeData', id, patch: { name: e.target.value } })}
                     onBlur={handleBlur}
                     onDoubleClick={handleDoubleClick}
                     // Prevent node drag starting on input field interaction
@@ -192,11 +170,7 @@ const CustomNode: FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
 };
 
 // Map of custom node types for React Flow
-const nodeTypes = {
-    Company: CustomNode,
-    Employee: CustomNode,
-    Supplier: CustomNode,
-};
+const nodeTypes = Object.fromEntries(ENTITY_TYPES.map((type) => [type, CustomNode]));
 
 
 // --- Sidebar Component ---
@@ -209,7 +183,7 @@ interface DraggableSidebarItemProps {
  * Draggable item for the sidebar.
  */
 const DraggableSidebarItem: FC<DraggableSidebarItemProps> = ({ type }) => {
-    const { icon: Icon, color } = ENTITY_CONFIG[type];
+    const { label, icon: Icon, color } = ENTITY_CONFIG[type];
 
     const handleDragStart = (e: DragEvent<HTMLDivElement>): void => {
         // Transfer the node type data
@@ -224,7 +198,7 @@ const DraggableSidebarItem: FC<DraggableSidebarItemProps> = ({ type }) => {
             onDragStart={handleDragStart}
         >
             <Icon className="w-5 h-5 mr-3" />
-            <span className="font-semibold">{type}</span>
+            <span className="font-semibold">{label}</span>
         </div>
     );
 };
@@ -232,9 +206,14 @@ const DraggableSidebarItem: FC<DraggableSidebarItemProps> = ({ type }) => {
 // --- React Flow Core Component (Canvas) ---
 
 const FlowCanvas: FC = () => {
-    // Initialize nodes and edges with hooks
-    const [nodes, setNodes, onNodesChange] = useNodesState<CustomNodeData>([]);
-    const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+    // The canvas model; every change is dispatched to the store as an action
+    const { state: { nodes, edges }, dispatch } = useCanvasStore();
+    // Undo/redo via Ctrl+Z / Ctrl+Shift+Z
+    const restore = useCallback(
+        (snapshot: CanvasSnapshot<EntityNode, RelationshipEdge>) => dispatch({ type: 'replaceCanvas', state: snapshot }),
+        [dispatch]
+    );
+    const { record, seal } = useCanvasHistory({ nodes, edges, restore });
 
     // Get the instance for utility functions like project
     const { screenToFlowPosition } = useReactFlow();
@@ -242,35 +221,55 @@ const FlowCanvas: FC = () => {
 
     // --- Connection Handling (When user drags handle to handle) ---
     const onConnect: OnConnect = useCallback((params: Edge | Connection) => {
-        setEdges((eds) => addEdge({
-            ...params,
-            id: generateUniqueId('edge'),
-            animated: true,
-            style: { stroke: '#4F46E5', strokeWidth: 2 }, // Apply custom styling to the edge
-        }, eds));
-    }, [setEdges]);
-
-    // --- Custom Action Handlers passed to CustomNode ---
-
-    // 1. Handle Name Change
-    const handleNameChange = useCallback((id: string, newName: string) => {
-        setNodes((nds) =>
-            nds.map((node) =>
-                node.id === id
-                    ? { ...node, data: { ...node.data, name: newName } }
-                    : node
-            )
-        );
-    }, [setNodes]);
-
-    // 2. Handle Node Deletion
-    const handleNodeDelete = useCallback((id: string) => {
-        // Remove connections first
-        setEdges((eds) => eds.filter(edge => edge.source !== id && edge.target !== id));
-
-        // Remove node
-        setNodes((nds) => nds.filter(node => node.id !== id));
-    }, [setNodes, setEdges]);
+        if (!params.source || !params.target) {
+            return;
+        }
+        record('Connect');
+        dispatch({
+            type: 'connect',
+            edge: {
+                ...params,
+                id: generateUniqueId('edge'),
+                source: params.source,
+                target: params.target,
+                animated: true,
+                style: { stroke: '#4F46E5', strokeWidth: 2 }, // Apply custom styling to the edge
+            },
+        });
+    }, [record, dispatch]);
+
+    // --- Actions dispatched by CustomNode (renames and deletes are recorded for undo) ---
+
+    const dispatchFromNode = useCallback((action: CanvasAction) => {
+        if (action.type === 'updateNodeData') {
+            record('Rename', `rename:${action.id}`);
+        } else if (action.type === 'removeNodes') {
+            record('Delete');
+        }
+        dispatch(action);
+    }, [record, dispatch]);
+
+    // --- Change Handling (drags become one undo step each, deletes are recorded) ---
+
+    const handleNodesChange = useCallback((changes: NodeChange[]) => {
+        if (changes.some((change) => change.type === 'remove')) {
+            record('Delete');
+        }
+        const moves = changes.filter((change) => change.type === 'position');
+        if (moves.some((change) => change.dragging)) {
+            record('Move', `move:${moves.map((change) => change.id).join(',')}`);
+        } else if (moves.length > 0) {
+            seal();
+        }
+        dispatch({ type: 'applyNodeChanges', changes });
+    }, [record, seal, dispatch]);
+
+    const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+        if (changes.some((change) => change.type === 'remove')) {
+            record('Delete');
+        }
+        dispatch({ type: 'applyEdgeChanges', changes });
+    }, [record, dispatch]);
 
 
     // --- Drag and Drop from Sidebar ---
@@ -282,13 +281,13 @@ const FlowCanvas: FC = () => {
 
     const handleDrop = useCallback((e: DragEvent<HTMLDivElement>): void => {
         e.preventDefault();
-        const nodeType = e.dataTransfer.getData('application/reactflow') as EntityType | '';
+        const nodeType = e.dataTransfer.getData('application/reactflow');
 
-        if (reactFlowWrapper.current && nodeType && ENTITY_CONFIG[nodeType]) {
+        if (reactFlowWrapper.current && isEntityType(nodeType)) {
             const position = screenToFlowPosition({ x: e.clientX, y: e.clientY });
             const config = ENTITY_CONFIG[nodeType];
 
-            const newNode: Node<CustomNodeData> = {
+            const newNode: EntityNode = {
                 id: generateUniqueId('node'),
                 type: nodeType, // Must match the key in nodeTypes map
                 position: {
@@ -296,53 +295,54 @@ const FlowCanvas: FC = () => {
                     y: position.y - 55,  // Center the node vertically
                 },
                 data: {
-                    type: nodeType,
+                    label: config.label,
                     name: config.initialName,
-                    onNameChange: handleNameChange, // Pass the handler
-                    onNodeDelete: handleNodeDelete, // Pass the handler
                 },
             };
 
-            setNodes((nds) => nds.concat(newNode));
+            record('Add entity');
+            dispatch({ type: 'addElements', nodes: [newNode], edges: [] });
         }
-    }, [screenToFlowPosition, setNodes, handleNameChange, handleNodeDelete]);
+    }, [screenToFlowPosition, record, dispatch]);
 
 
     return (
-        <div ref={reactFlowWrapper} className="w-full h-full relative">
-            <style>{reactFlowStyles}</style> {/* Inject minimal React Flow styles */}
-            <ReactFlow
-                nodes={nodes}
-                edges={edges}
-                // Use built-in change handlers for dragging/movement
-                onNodesChange={(changes) => onNodesChange(changes)}
-                onEdgesChange={(changes) => onEdgesChange(changes)}
-
-                // Use built-in connection handler
-                onConnect={onConnect}
-
-                // Custom node types registration
-                nodeTypes={nodeTypes}
-
-                // Drag and Drop handlers
-                onDragOver={handleDragOver}
-                onDrop={handleDrop}
-
-                // Ensure nodes are draggable by default
-                proOptions={{ hideAttribution: true }}
-                fitView
-            >
-                {/* Placeholder for no nodes */}
-                {nodes.length === 0 && (
-                    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none text-gray-400 z-20">
-                        <Focus className="w-16 h-16 mb-4 opacity-50" />
-                        <p className="text-xl font-semibold">
-                            Drag an entity here to start modeling.
-                        </p>
-                    </div>
-                )}
-            </ReactFlow>
-        </div>
+        <CanvasDispatchContext.Provider value={dispatchFromNode}>
+            <div ref={reactFlowWrapper} className="w-full h-full relative">
+                <style>{reactFlowStyles}</style> {/* Inject minimal React Flow styles */}
+                <ReactFlow
+                    nodes={nodes}
+                    edges={edges}
+                    // Use built-in change handlers for dragging/movement
+                    onNodesChange={handleNodesChange}
+                    onEdgesChange={handleEdgesChange}
+
+                    // Use built-in connection handler
+                    onConnect={onConnect}
+
+                    // Custom node types registration
+                    nodeTypes={nodeTypes}
+
+                    // Drag and Drop handlers
+                    onDragOver={handleDragOver}
+                    onDrop={handleDrop}
+
+                    // Ensure nodes are draggable by default
+                    proOptions={{ hideAttribution: true }}
+                    fitView
+                >
+                    {/* Placeholder for no nodes */}
+                    {nodes.length === 0 && (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none text-gray-400 z-20">
+                            <Focus className="w-16 h-16 mb-4 opacity-50" />
+                            <p className="text-xl font-semibold">
+                                Drag an entity here to start modeling.
+                            </p>
+                        </div>
+                    )}
+                </ReactFlow>
+            </div>
+        </CanvasDispatchContext.Provider>
     );
 };
 
@@ -362,7 +362,7 @@ const BusinessModelCanvas: FC = () => {
                     Drag and drop these entities onto the canvas to model your business.
                 </p>
 
-                {(Object.keys(ENTITY_CONFIG) as EntityType[]).map((type) => (
+                {ENTITY_TYPES.map((type) => (
                     <DraggableSidebarItem key={type} type={type} />
                 ))}
 
@@ -374,6 +374,7 @@ const BusinessModelCanvas: FC = () => {
                         <li className="font-bold text-green-600">Drag the connection handles to link nodes.</li>
                         <li>Double-click a node name to edit it.</li>
                         <li className="font-bold text-red-600">Click the trash icon to delete.</li>
+                        <li>Ctrl+Z to undo, Ctrl+Shift+Z to redo.</li>
                     </ul>
                 </div>
             </aside>
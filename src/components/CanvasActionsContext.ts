@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { EntityNodeData, RelationshipEdgeData } from '../models/CanvasModels';
+
+/**
+ * Actions node components use to change the canvas state. Provided by FlowWrapper so that
+ * nodes never mutate their `data` in place and never need callbacks stored inside it.
+ */
+export interface CanvasActions {
+  updateNodeData: (id: string, patch: Partial<EntityNodeData>) => void;
+  updateEdgeData: (id: string, patch: Partial<RelationshipEdgeData>) => void;
+  // Splits a group node back into individual entities
+  ungroupNode: (id: string) => void;
+  // Redraws a connector the other way round, re-running relationship inference
+  reverseEdge: (id: string) => void;
+  // Adds a reference (alias) card for an entity
+  createAlias: (id: string) => void;
+  // Selects an entity and brings it into view
+  focusNode: (id: string) => void;
+}
+
+export const CanvasActionsContext = createContext<CanvasActions | null>(null);
+
+export const useCanvasActions = (): CanvasActions => {
+  const actions = useContext(CanvasActionsContext);
+  if (!actions) {
+    throw new Error('useCanvasActions must be used inside a CanvasActionsContext provider.');
+  }
+  return actions;
+};
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { ValueStore, useValueStore } from '../store/ValueStore';
+
+/**
+ * The canvas element under the pointer, either on the canvas itself or through its counterpart in
+ * the graph preview, so both views can highlight it.
+ */
+export interface HoveredElement {
+  kind: 'node' | 'edge';
+  // Canvas id (for a group node, the group's id)
+  id: string;
+}
+
+// Provided as a store, so moving the pointer only re-renders the elements it leaves and enters
+export const CanvasHoverContext = createContext(new ValueStore<HoveredElement | null>(null));
+
+export const useIsHovered = (kind: HoveredElement['kind'], id: string): boolean =>
+  useValueStore(useContext(CanvasHoverContext), (hovered) => hovered?.kind === kind && hovered.id === id);
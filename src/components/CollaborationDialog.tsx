@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { LogOut, Users, X } from 'lucide-react';
+import type { CollaborationStatus } from '../collaboration/CollaborationClient';
+import { peerColor, type Peer } from '../collaboration/protocol';
+import type { CollaborationSession } from './useCollaboration';
+
+interface CollaborationDialogProps {
+  session: CollaborationSession | null;
+  status: CollaborationStatus | null;
+  peers: Peer[];
+  // Room suggested when not in a session
+  defaultRoomId: string;
+  onJoin: (session: CollaborationSession) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  reconnecting: 'Connection lost, reconnecting…',
+  resyncing: 'A change from the room could not be applied, reloading the room…',
+};
+
+/**
+ * Starts or joins a live editing session on a room, or shows who is in the current one.
+ */
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({ session, status, peers, defaultRoomId, onJoin, onLeave, onClose }) => {
+  const [roomId, setRoomId] = useState(session?.roomId ?? defaultRoomId);
+  const [name, setName] = useState(session?.name ?? '');
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-md w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Collaborate</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {session ? (
+          <>
+            <p className="text-sm text-gray-500 mb-1">
+              Editing live in room <span className="font-mono font-semibold text-gray-700">{session.roomId}</span> as{' '}
+              <span className="font-semibold text-gray-700">{session.name}</span>.
+            </p>
+            <p className={`text-sm mb-4 ${status === 'connected' ? 'text-green-600' : 'text-amber-600'}`}>{status ? STATUS_LABELS[status] : ''}</p>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Also here</h4>
+            {peers.length === 0 ? (
+              <p className="text-sm text-gray-400 mb-4">Nobody else yet. Others join with the same room name.</p>
+            ) : (
+              <ul className="mb-4 space-y-1">
+                {peers.map((peer) => (
+                  <li key={peer.clientId} className="flex items-center text-sm text-gray-700">
+                    <span className="w-3 h-3 mr-2 rounded-full" style={{ backgroundColor: peerColor(peer.clientId) }} />
+                    {peer.presence.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end">
+              <button
+                onClick={onLeave}
+                className="flex items-center px-4 py-2 bg-white text-red-600 font-semibold rounded-lg shadow-md ring-1 ring-red-200 hover:bg-red-50 transition duration-150"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Leave Session
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              Everyone who joins the same room edits one diagram together. Joining an empty room shares this diagram; joining a room in use
+              replaces this canvas with the room's diagram.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Room</label>
+            <input
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              className="w-full mb-3 p-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            />
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Shown next to your cursor"
+              className="w-full mb-6 p-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={() => onJoin({ roomId: roomId.trim(), name: name.trim() })}
+                disabled={!roomId.trim() || !name.trim()}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 disabled:opacity-50"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Join Room
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollaborationDialog;
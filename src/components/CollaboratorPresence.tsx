@@ -0,0 +1,71 @@
+import React from 'react';
+import { useStore } from 'reactflow';
+import type { EntityNode } from '../models/CanvasModels';
+import { peerColor, type Peer } from '../collaboration/protocol';
+
+interface CollaboratorPresenceProps {
+  peers: Peer[];
+  nodes: EntityNode[];
+}
+
+// Size used for entities React Flow has not measured yet
+const DEFAULT_NODE_SIZE = { width: 192, height: 96 };
+
+/**
+ * Draws the other collaborators' cursors and selected entities over the canvas, each in their
+ * own colour. Rendered inside React Flow, so it follows panning and zooming.
+ */
+const CollaboratorPresence: React.FC<CollaboratorPresenceProps> = ({ peers, nodes }) => {
+  const [translateX, translateY, zoom] = useStore((store) => store.transform);
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const toScreen = (point: { x: number; y: number }) => ({ x: point.x * zoom + translateX, y: point.y * zoom + translateY });
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ zIndex: 5 }}>
+      {peers.map(({ clientId, presence }) => {
+        const color = peerColor(clientId);
+        const cursor = presence.cursor && toScreen(presence.cursor);
+        return (
+          <React.Fragment key={clientId}>
+            {presence.selection.map((id) => {
+              const node = nodesById.get(id);
+              if (!node) {
+                return null;
+              }
+              const corner = toScreen(node.positionAbsolute ?? node.position);
+              return (
+                <div
+                  key={id}
+                  className="absolute rounded-xl"
+                  style={{
+                    left: corner.x - 4,
+                    top: corner.y - 4,
+                    width: (node.width ?? DEFAULT_NODE_SIZE.width) * zoom + 8,
+                    height: (node.height ?? DEFAULT_NODE_SIZE.height) * zoom + 8,
+                    border: `2px solid ${color}`,
+                  }}
+                >
+                  <span className="absolute -top-5 left-2 px-1.5 rounded text-xs font-semibold text-white" style={{ backgroundColor: color }}>
+                    {presence.name}
+                  </span>
+                </div>
+              );
+            })}
+            {cursor && (
+              <div className="absolute" style={{ left: cursor.x, top: cursor.y }}>
+                <svg width="16" height="20" viewBox="0 0 16 20">
+                  <path d="M 0 0 L 0 16 L 4.5 12 L 8 19 L 10.5 18 L 7 11 L 13 11 z" fill={color} stroke="white" strokeWidth="1" />
+                </svg>
+                <span className="absolute top-4 left-3 px-1.5 rounded text-xs font-semibold text-white whitespace-nowrap" style={{ backgroundColor: color }}>
+                  {presence.name}
+                </span>
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CollaboratorPresence;
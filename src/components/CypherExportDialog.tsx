@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+
+interface CypherExportDialogProps {
+  script: string;
+  // Caveats about how the script was generated, shown above it
+  notes?: string[];
+  onClose: () => void;
+}
+
+/**
+ * Shows a generated Cypher script so it can be copied and pasted into Neo4j Browser.
+ */
+const CypherExportDialog: React.FC<CypherExportDialogProps> = ({ script, notes = [], onClose }) => {
+  const [copyStatus, setCopyStatus] = useState('');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script);
+      setCopyStatus('Copied to clipboard.');
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      setCopyStatus('Failed to copy. Select the script and copy it manually.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-3xl w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Cypher Export</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-2">Paste this script into Neo4j Browser to create or update the graph.</p>
+        {notes.length > 0 && (
+          <ul className="mb-2 p-2 rounded-md bg-amber-50 text-xs text-amber-800 space-y-0.5">
+            {notes.map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        )}
+        <pre className="bg-gray-900 text-gray-100 text-xs p-4 rounded-lg max-h-96 overflow-auto whitespace-pre-wrap">{script}</pre>
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          {copyStatus && <span className="text-sm text-gray-500">{copyStatus}</span>}
+          <button
+            onClick={handleCopy}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150"
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CypherExportDialog;
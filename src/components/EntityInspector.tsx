@@ -0,0 +1,95 @@
+import React from 'react';
+import { Link2, SlidersHorizontal } from 'lucide-react';
+import type { EntityNode } from '../models/CanvasModels';
+import { getEntityDefinition, type EntityPropertyDefinition } from '../models/entityRegistry';
+import { formatPropertyValue } from '../models/entityProperties';
+import { useCanvasActions } from './CanvasActionsContext';
+import GroupMembersEditor from './GroupMembersEditor';
+import PropertyField, { inputClassName } from './PropertyField';
+import { usePropertyDrafts } from './usePropertyDrafts';
+
+interface EntityInspectorProps {
+  node: EntityNode;
+}
+/**
+ * Side panel for editing the name and typed properties of the selected entity.
+ * Invalid input stays local to the panel (with an error message) and is never written to the node.
+ * A reference has nothing of its own to edit, so it only links to its entity.
+ */
+const EntityInspector: React.FC<EntityInspectorProps> = ({ node }) => {
+  const { updateNodeData, createAlias, focusNode } = useCanvasActions();
+  const definition = getEntityDefinition(node.type);
+  const { drafts, applyChange } = usePropertyDrafts();
+
+  const { aliasOf } = node.data;
+  if (aliasOf) {
+    return (
+      <aside className="w-72 p-4 bg-white border-l border-gray-200 flex-shrink-0 overflow-y-auto">
+        <div className="flex items-center space-x-2 mb-4">
+          <Link2 className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-700">{definition?.label ?? 'Entity'} Reference</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          This card refers to the {node.data.label} "{node.data.name}". Its connectors belong to that entity, and both
+          become a single node in Neo4j.
+        </p>
+        <button onClick={() => focusNode(aliasOf)} className="text-sm text-indigo-600 hover:text-indigo-800">
+          Show the original entity
+        </button>
+      </aside>
+    );
+  }
+
+  const handlePropertyChange = (property: EntityPropertyDefinition, raw: string) => {
+    const properties = applyChange(property, raw, node.data.properties);
+    if (properties) {
+      updateNodeData(node.id, { properties });
+    }
+  };
+
+  return (
+    <aside className="w-72 p-4 bg-white border-l border-gray-200 flex-shrink-0 overflow-y-auto">
+      <div className="flex items-center space-x-2 mb-4">
+        <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+        <h2 className="text-lg font-semibold text-gray-700">{definition?.label ?? 'Entity'}{node.data.group ? ' Group' : ''} Properties</h2>
+      </div>
+      <label className="block mb-3">
+        <span className="text-xs font-semibold text-gray-600">Name</span>
+        <input
+          type="text"
+          value={node.data.name}
+          onChange={(e) => updateNodeData(node.id, { name: e.target.value })}
+          className={`${inputClassName} border-gray-300`}
+        />
+      </label>
+      {node.data.group && definition?.properties.length !== 0 && (
+        <p className="text-xs text-gray-500 mb-3">These properties are shared by every member of the group.</p>
+      )}
+      {definition?.properties.map((property) => (
+        <PropertyField
+          key={property.key}
+          definition={property}
+          value={drafts[property.key]?.raw ?? formatPropertyValue(node.data.properties?.[property.key])}
+          error={drafts[property.key]?.error}
+          onChange={(raw) => handlePropertyChange(property, raw)}
+        />
+      ))}
+      {definition?.properties.length === 0 && (
+        <p className="text-sm text-gray-500">This entity type declares no extra properties.</p>
+      )}
+      <GroupMembersEditor node={node} />
+      {!node.data.group && (
+        <button
+          onClick={() => createAlias(node.id)}
+          className="flex items-center mt-4 text-sm text-indigo-600 hover:text-indigo-800"
+          title="Add another card for this entity elsewhere on the canvas"
+        >
+          <Link2 className="w-4 h-4 mr-1" />
+          Add reference
+        </button>
+      )}
+    </aside>
+  );
+};
+
+export default EntityInspector;
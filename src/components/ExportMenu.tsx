@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ChevronDown, FileDown } from 'lucide-react';
+
+export type ExportFormat = 'svg' | 'png' | 'mermaid' | 'graphml' | 'dot';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'svg', label: 'SVG image', description: 'The canvas, for documents and slides' },
+  { format: 'png', label: 'PNG image', description: 'The canvas, as a bitmap' },
+  { format: 'mermaid', label: 'Mermaid', description: 'The graph as a flowchart for Markdown' },
+  { format: 'graphml', label: 'GraphML', description: 'The graph for yEd, Gephi and others' },
+  { format: 'dot', label: 'Graphviz DOT', description: 'The graph for Graphviz' },
+];
+
+/**
+ * Header drop-down for downloading the canvas as an image, or the inferred graph in another tool's format.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+      >
+        <FileDown className="w-5 h-5 mr-2" />
+        Export
+        <ChevronDown className="w-4 h-4 ml-1" />
+      </button>
+      {isOpen && (
+        <>
+          {/* Clicking anywhere else closes the menu */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <ul className="absolute right-0 z-50 mt-2 w-64 py-1 bg-white rounded-lg shadow-lg ring-1 ring-gray-200">
+            {EXPORT_OPTIONS.map((option) => (
+              <li key={option.format}>
+                <button
+                  onClick={() => {
+                    setIsOpen(false);
+                    onExport(option.format);
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-indigo-50 transition duration-150"
+                >
+                  <span className="block text-sm font-semibold text-gray-800">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,212 @@
+import React, { useDeferredValue, useMemo } from 'react';
+import { Network } from 'lucide-react';
+import type { CanvasState } from '../models/CanvasModels';
+import { ENTITY_TYPES, UNKNOWN_ENTITY_COLOR, getEntityDefinition, type CustomNodeType } from '../models/entityRegistry';
+import { formatPropertyValue, type EntityProperties } from '../models/entityProperties';
+import { inferGraph, type InferredGraphNode } from '../graph/inferredGraph';
+import { layeredLayout } from '../graph/layeredLayout';
+import type { HoveredElement } from './CanvasHoverContext';
+
+interface GraphPreviewPaneProps {
+  state: CanvasState;
+  hovered: HoveredElement | null;
+  onHover: (element: HoveredElement | null) => void;
+}
+
+// Drawing constants, in SVG units (the drawing is scaled to fit the pane)
+const NODE_RADIUS = 30;
+const PADDING = 60;
+const HIGHLIGHT = '#0EA5E9';
+// Longest property list shown for a hovered canvas element (a group can stand for many nodes)
+const MAX_DETAIL_NODES = 5;
+
+const truncate = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// The parts of the canvas the graph is inferred from, so moving or selecting cards leaves it unchanged
+const graphInputKey = (state: CanvasState): string =>
+  JSON.stringify({
+    nodes: state.nodes.map(({ id, type, data }) => ({ id, type, data, position: { x: 0, y: 0 } })),
+    edges: state.edges.map(({ id, source, target, data }) => ({ id, source, target, data })),
+  });
+
+const formatProperties = (properties: EntityProperties): string =>
+  Object.entries(properties)
+    .map(([key, value]) => `${key}: ${formatPropertyValue(value)}`)
+    .join(', ');
+
+/**
+ * Read-only view of the Neo4j graph the canvas stands for (as in docs/neo4j_view.png), derived
+ * live from the canvas. Hovering an element here highlights its canvas counterpart and vice versa.
+ * The graph and its layout are recomputed in the background, and only when the graph changes.
+ */
+const GraphPreviewPane: React.FC<GraphPreviewPaneProps> = ({ state, hovered, onHover }) => {
+  const deferredState = useDeferredValue(state);
+  const inputKey = useMemo(() => graphInputKey(deferredState), [deferredState]);
+  const graph = useMemo(() => inferGraph(JSON.parse(inputKey) as CanvasState), [inputKey]);
+
+  const { positions, viewBox } = useMemo(() => {
+    const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+    const layout = layeredLayout(
+      graph.nodes.map((node) => node.id),
+      graph.relationships.map(({ start, end }) => ({ source: start, target: end })),
+      {
+        columnSpacing: 200,
+        rowSpacing: 100,
+        compare: (a, b) => {
+          const nodeA = nodesById.get(a)!;
+          const nodeB = nodesById.get(b)!;
+          const byType = ENTITY_TYPES.indexOf(nodeA.type as CustomNodeType) - ENTITY_TYPES.indexOf(nodeB.type as CustomNodeType);
+          return byType !== 0 ? byType : nodeA.name.localeCompare(nodeB.name);
+        },
+      }
+    );
+    const points = [...layout.values()];
+    const maxX = Math.max(0, ...points.map((point) => point.x));
+    const maxY = Math.max(0, ...points.map((point) => point.y));
+    return {
+      positions: layout,
+      viewBox: `${-PADDING} ${-PADDING} ${maxX + 2 * PADDING} ${maxY + 2 * PADDING}`,
+    };
+  }, [graph]);
+
+  const isHighlighted = (kind: HoveredElement['kind'], canvasId: string) => hovered?.kind === kind && hovered.id === canvasId;
+
+  const hoveredNodes: InferredGraphNode[] = hovered?.kind === 'node' ? graph.nodes.filter((node) => node.canvasId === hovered.id) : [];
+  const hoveredRelationship = hovered?.kind === 'edge'
+    ? graph.relationships.find((relationship) => relationship.canvasId === hovered.id)
+    : undefined;
+
+  return (
+    <aside className="w-2/5 flex flex-col bg-white border-l border-gray-200 flex-shrink-0">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <Network className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-700">Inferred Graph</h2>
+        </div>
+        <span className="text-xs text-gray-500">
+          {graph.nodes.length} nodes, {graph.relationships.length} relationships
+        </span>
+      </div>
+
+      <div className="flex-grow overflow-hidden bg-gray-50">
+        {graph.nodes.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">The graph is empty. Add entities to the canvas to see it here.</p>
+        ) : (
+          <svg viewBox={viewBox} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+            <defs>
+              <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#6B7280" />
+              </marker>
+              <marker id="graph-arrow-highlight" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={HIGHLIGHT} />
+              </marker>
+            </defs>
+
+            {graph.relationships.map((relationship) => {
+              const start = positions.get(relationship.start);
+              const end = positions.get(relationship.end);
+              if (!start || !end) {
+                return null;
+              }
+              // Lines run between the circle outlines rather than the centres
+              const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+              const ux = (end.x - start.x) / length;
+              const uy = (end.y - start.y) / length;
+              const highlighted = isHighlighted('edge', relationship.canvasId);
+              return (
+                <g
+                  key={relationship.id}
+                  onMouseEnter={() => onHover({ kind: 'edge', id: relationship.canvasId })}
+                  onMouseLeave={() => onHover(null)}
+                  className="cursor-default"
+                >
+                  <line
+                    x1={start.x + ux * NODE_RADIUS}
+                    y1={start.y + uy * NODE_RADIUS}
+                    x2={end.x - ux * NODE_RADIUS}
+                    y2={end.y - uy * NODE_RADIUS}
+                    stroke={highlighted ? HIGHLIGHT : '#9CA3AF'}
+                    strokeWidth={highlighted ? 3 : 1.5}
+                    markerEnd={highlighted ? 'url(#graph-arrow-highlight)' : 'url(#graph-arrow)'}
+                  />
+                  {/* Wider invisible line for easier hovering */}
+                  <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth={12} />
+                  <text
+                    x={(start.x + end.x) / 2}
+                    y={(start.y + end.y) / 2 - 4}
+                    textAnchor="middle"
+                    fontSize={10}
+                    fill={highlighted ? HIGHLIGHT : '#4B5563'}
+                    stroke="white"
+                    strokeWidth={3}
+                    style={{ paintOrder: 'stroke' }}
+                  >
+                    {relationship.type}
+                  </text>
+                </g>
+              );
+            })}
+
+            {graph.nodes.map((node) => {
+              const position = positions.get(node.id);
+              if (!position) {
+                return null;
+              }
+              const highlighted = isHighlighted('node', node.canvasId);
+              const color = (getEntityDefinition(node.type)?.color ?? UNKNOWN_ENTITY_COLOR).hex;
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  onMouseEnter={() => onHover({ kind: 'node', id: node.canvasId })}
+                  onMouseLeave={() => onHover(null)}
+                  className="cursor-default"
+                >
+                  <title>{[`:${node.label}`, node.name, formatProperties(node.properties)].filter(Boolean).join('\n')}</title>
+                  <circle
+                    r={NODE_RADIUS}
+                    fill={color}
+                    stroke={highlighted ? HIGHLIGHT : 'white'}
+                    strokeWidth={highlighted ? 5 : 2}
+                  />
+                  <text textAnchor="middle" dy={4} fontSize={10} fill="white" fontWeight={600}>
+                    {truncate(node.name || '(unnamed)', 10)}
+                  </text>
+                  <text textAnchor="middle" y={NODE_RADIUS + 14} fontSize={9} fill="#6B7280">
+                    :{node.label}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+
+      {/* Properties of the hovered element, as stored in Neo4j */}
+      <div className="p-4 border-t border-gray-100 text-xs text-gray-600 min-h-20">
+        {hoveredNodes.length > 0 && (
+          <ul className="space-y-1">
+            {hoveredNodes.slice(0, MAX_DETAIL_NODES).map((node) => (
+              <li key={node.id}>
+                <span className="font-semibold">(:{node.label} {`{name: "${node.name}"}`})</span>
+                {Object.keys(node.properties).length > 0 && <span> {formatProperties(node.properties)}</span>}
+              </li>
+            ))}
+            {hoveredNodes.length > MAX_DETAIL_NODES && <li>…and {hoveredNodes.length - MAX_DETAIL_NODES} more</li>}
+          </ul>
+        )}
+        {hoveredRelationship && (
+          <p>
+            <span className="font-semibold">[:{hoveredRelationship.type}]</span>
+            {Object.keys(hoveredRelationship.properties).length > 0 && (
+              <span> {formatProperties(hoveredRelationship.properties)}</span>
+            )}
+          </p>
+        )}
+        {!hovered && <p className="text-gray-400">Hover over an entity or connector to see its graph properties.</p>}
+      </div>
+    </aside>
+  );
+};
+
+export default GraphPreviewPane;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Plus, Trash2, Ungroup } from 'lucide-react';
+import type { EntityGroupMember, EntityNode } from '../models/CanvasModels';
+import { useCanvasActions } from './CanvasActionsContext';
+import { inputClassName } from './PropertyField';
+
+interface GroupMembersEditorProps {
+  node: EntityNode;
+}
+
+/**
+ * Inspector section listing the entities a group node stands for. Members can be renamed,
+ * added and removed, and the group can be split back into individual entities.
+ */
+const GroupMembersEditor: React.FC<GroupMembersEditorProps> = ({ node }) => {
+  const { updateNodeData, ungroupNode } = useCanvasActions();
+  const group = node.data.group;
+  if (!group) {
+    return null;
+  }
+
+  const setMembers = (members: EntityGroupMember[]) => updateNodeData(node.id, { group: { ...group, members } });
+
+  const renameMember = (id: string, name: string) =>
+    setMembers(group.members.map((member) => (member.id === id ? { ...member, name } : member)));
+
+  const addMember = () =>
+    setMembers([...group.members, { id: crypto.randomUUID(), name: `${node.data.label} ${group.members.length + 1}` }]);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Members ({group.members.length})</h3>
+        <button
+          onClick={addMember}
+          className="flex items-center text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </button>
+      </div>
+      <ul className="space-y-2 mb-4">
+        {group.members.map((member) => (
+          <li key={member.id} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={member.name}
+              onChange={(e) => renameMember(member.id, e.target.value)}
+              className={`${inputClassName} border-gray-300`}
+            />
+            <button
+              onClick={() => setMembers(group.members.filter((other) => other.id !== member.id))}
+              title="Remove member"
+              className="text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => ungroupNode(node.id)}
+        className="w-full flex items-center justify-center px-3 py-2 text-sm font-semibold text-indigo-600 rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+      >
+        <Ungroup className="w-4 h-4 mr-2" />
+        Ungroup into {group.members.length} entities
+      </button>
+    </div>
+  );
+};
+
+export default GroupMembersEditor;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import type { CanvasState } from '../models/CanvasModels';
+import { formatImportIssue, parseCanvasJson, type ImportIssue } from '../persistence/canvasDocument';
+
+interface ImportDiagramDialogProps {
+  onImport: (state: CanvasState, warnings: ImportIssue[], fromVersion: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets the user paste or upload canvas JSON, validates it and reports every problem found.
+ * Older formats are migrated to the current one on import.
+ */
+const ImportDiagramDialog: React.FC<ImportDiagramDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<ImportIssue[]>([]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setText(await file.text());
+      setErrors([]);
+    }
+  };
+
+  const handleImport = () => {
+    const result = parseCanvasJson(text);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    onImport(result.state, result.warnings, result.fromVersion);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-2xl w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Import Diagram JSON</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-2">
+          Paste JSON copied from the modeler, or upload a file. Diagrams saved by older versions are migrated automatically.
+        </p>
+        <input type="file" accept=".json,application/json" onChange={handleFileChange} className="mb-3 text-sm" />
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setErrors([]);
+          }}
+          rows={12}
+          className="w-full font-mono text-xs p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300"
+          placeholder='{ "schemaVersion": 2, "nodes": [...], "edges": [...] }'
+        />
+        {errors.length > 0 && (
+          <div className="mt-3 max-h-40 overflow-y-auto bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm font-semibold text-red-700 mb-1">
+              The diagram could not be imported ({errors.length} {errors.length === 1 ? 'problem' : 'problems'}):
+            </p>
+            <ul className="text-xs text-red-600 font-mono space-y-0.5">
+              {errors.map((issue, index) => (
+                <li key={index}>{formatImportIssue(issue)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={handleImport}
+            disabled={!text.trim()}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 disabled:opacity-50"
+          >
+            <FileUp className="w-4 h-4 mr-2" />
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDiagramDialog;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Database, FolderOpen, History, Trash2, X } from 'lucide-react';
+import {
+  isGraphSourceRepository,
+  isVersionedRepository,
+  type CanvasRepository,
+  type DiagramSummary,
+  type DiagramVersion,
+} from '../persistence/CanvasRepository';
+
+interface LoadDiagramDialogProps {
+  repository: CanvasRepository;
+  onLoad: (id: string, version?: number) => void;
+  // Opens the graph data that belongs to no saved diagram (graph-backed repositories only)
+  onOpenGraph: () => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists the diagrams stored in the repository and lets the user open or delete one.
+ * For versioned repositories, prior versions of each diagram can be listed and restored.
+ * For graph-backed repositories, the existing graph can be opened as a new diagram.
+ */
+const LoadDiagramDialog: React.FC<LoadDiagramDialogProps> = ({ repository, onLoad, onOpenGraph, onError, onClose }) => {
+  const [diagrams, setDiagrams] = useState<DiagramSummary[] | null>(null);
+  const [history, setHistory] = useState<{ diagramId: string; versions: DiagramVersion[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository
+      .list()
+      .then((summaries) => {
+        if (!cancelled) setDiagrams(summaries);
+      })
+      .catch((err: Error) => onError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, onError]);
+
+  const handleDelete = async (diagram: DiagramSummary) => {
+    if (!window.confirm(`Are you sure you want to delete the diagram: ${diagram.name}?`)) {
+      return;
+    }
+    try {
+      await repository.delete(diagram.id);
+      setDiagrams((current) => current?.filter((d) => d.id !== diagram.id) ?? null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete the diagram.');
+    }
+  };
+
+  const handleToggleHistory = async (diagram: DiagramSummary) => {
+    if (!isVersionedRepository(repository)) {
+      return;
+    }
+    if (history?.diagramId === diagram.id) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory({ diagramId: diagram.id, versions: await repository.listVersions(diagram.id) });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to list the diagram versions.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-lg w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Load Diagram</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {isGraphSourceRepository(repository) && (
+          <button
+            onClick={onOpenGraph}
+            className="w-full flex items-center justify-center mb-4 px-4 py-2 text-sm font-semibold text-indigo-600 rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+          >
+            <Database className="w-4 h-4 mr-2" />
+            Open existing Neo4j graph
+          </button>
+        )}
+        {diagrams === null && <p className="text-sm text-gray-500">Loading saved diagrams...</p>}
+        {diagrams?.length === 0 && <p className="text-sm text-gray-500">No saved diagrams yet.</p>}
+        <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+          {diagrams?.map((diagram) => (
+            <li key={diagram.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-800">{diagram.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {diagram.entityCount} entities, {diagram.connectionCount} connections · saved{' '}
+                    {new Date(diagram.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {isVersionedRepository(repository) && (
+                    <button
+                      onClick={() => handleToggleHistory(diagram)}
+                      className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                      title="Version history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onLoad(diagram.id)}
+                    className="p-2 rounded-lg text-indigo-600 hover:bg-indigo-50"
+                    title="Open diagram"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(diagram)}
+                    className="p-2 rounded-lg text-red-600 hover:bg-red-50"
+                    title="Delete diagram"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {history?.diagramId === diagram.id && (
+                <ul className="mt-2 ml-4 border-l-2 border-indigo-100 pl-3 space-y-1">
+                  {history.versions.map((version) => (
+                    <li key={version.version} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">
+                        v{version.version} · {version.name} · {new Date(version.savedAt).toLocaleString()}
+                      </span>
+                      <button
+                        onClick={() => onLoad(diagram.id, version.version)}
+                        className="px-2 py-1 rounded text-indigo-600 hover:bg-indigo-50"
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LoadDiagramDialog;
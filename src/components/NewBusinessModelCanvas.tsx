@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { memo, useState, useCallback, useRef, useEffect, useMemo, useDeferredValue } from 'react';
 // The environment seems to struggle with resolving 'reactflow'.
 // For environments where external dependencies are tricky, we rely on the host to provide them,
 // but for a robust single-file solution, we must ensure imports are clean.
@@ -6,108 +6,261 @@ import React, { useState, useCallback } from 'react';
 // Note: The environment must provide the 'reactflow' package for this to work.
 import ReactFlow, {
   ReactFlowProvider,
-  addEdge,
-  useNodesState,
-  useEdgesState,
   Controls,
   MiniMap,
   Background,
-  applyNodeChanges,
-  applyEdgeChanges,
   useReactFlow,
+  useStore,
+  ConnectionMode,
   type Connection,
   type Edge,
   type EdgeProps,
   type Node,
+  type ReactFlowState,
+  type NodeChange,
+  type EdgeChange,
   Handle,
+  Panel,
   Position,
   getBezierPath, // Import getBezierPath explicitly
+  EdgeLabelRenderer,
 } from 'reactflow';
 // We often cannot include CSS imports in single-file React components in these environments.
 // We must assume the host environment (Canvas) handles ReactFlow's default styling or rely only on Tailwind.
 // Removing the explicit CSS import: import 'reactflow/dist/style.css'; 
-import { Building, User, Truck, Save, X } from 'lucide-react';
+import { Save, X, Database, Download, Upload, FolderOpen, ClipboardCopy, FileUp, FileSpreadsheet, Undo2, Redo2, ChevronDown, ChevronRight, CopyPlus, Group, Network, Search, Link2, Users } from 'lucide-react';
 import '@xyflow/react/dist/style.css';
+import type {
+  CanvasState,
+  CustomNodeType,
+  EntityNode as CanvasEntityNode,
+  EntityNodeData,
+  RelationshipEdge,
+  RelationshipEdgeData,
+} from '../models/CanvasModels';
+import {
+  ENTITY_REGISTRY,
+  ENTITY_TYPES,
+  UNKNOWN_ENTITY_COLOR,
+  getEntityDefinition,
+  getRelationshipDefinition,
+  isEntityType,
+} from '../models/entityRegistry';
+import { SOURCE_SIDES, TARGET_SIDES, handleId, handleOfKind } from '../models/connectionHandles';
+import { inferEdgeRelationship, reverseConnector } from '../graph/relationshipInference';
+import { countBySeverity, validateModel, type ValidationIssue } from '../graph/modelValidation';
+import { groupNodes, ungroupNode } from '../graph/entityGroups';
+import { createAlias, findDuplicates, mergeDuplicates } from '../graph/entityAliases';
+import { inferGraph } from '../graph/inferredGraph';
+import { evaluatePattern, patternFromSelection, type GraphPattern, type PatternMatch } from '../graph/patternQuery';
+import type { CatalogueEntry, SharedEntityData, WorkspaceDiagram } from '../graph/workspaceUnion';
+import { generateCypher, toCypherScript } from '../graph/cypherGenerator';
+import { apocToCanvas, canvasToApoc, parseApocJson } from '../graph/apocConverter';
+import { toDot, toGraphML, toMermaid } from '../graph/graphFormats';
+import type { BulkImportPlan } from '../graph/bulkImport';
+import { canvasToSvg, svgToPng } from '../utils/canvasImage';
+import { downloadFile } from '../utils/download';
+import { generateUniqueId } from '../utils/ids';
+import { useValueStoreFor, type ValueStore } from '../store/ValueStore';
+import {
+  isGraphSourceRepository,
+  isSyncingRepository,
+  isVersionedRepository,
+  type CanvasRepository,
+} from '../persistence/CanvasRepository';
+import { fingerprintCanvas, type AutosaveStore } from '../persistence/AutosaveStore';
+import { CURRENT_SCHEMA_VERSION, formatImportIssue, toCanvasDocument, type ImportIssue } from '../persistence/canvasDocument';
+import { createAutosaveStore, createCanvasRepository, createDocumentStore } from '../persistence/createCanvasRepository';
+import { CanvasActionsContext, useCanvasActions, type CanvasActions } from './CanvasActionsContext';
+import { useCanvasClipboard } from './useCanvasClipboard';
+import { useCanvasHistory, type CanvasSnapshot } from './useCanvasHistory';
+import { useCanvasStore } from './useCanvasStore';
+import { useCollaboration, type CollaborationSession } from './useCollaboration';
+import { CanvasHoverContext, useIsHovered, type HoveredElement } from './CanvasHoverContext';
+import { QueryMatchContext, highlightsForMatches, useIsQueryMatch, type QueryMatchHighlights } from './QueryMatchContext';
+import {
+  ValidationHighlightContext,
+  highlightsForIssues,
+  useEdgeValidation,
+  useNodeValidation,
+  type ValidationHighlights,
+} from './ValidationHighlightContext';
+import BulkImportDialog from './BulkImportDialog';
+import CollaborationDialog from './CollaborationDialog';
+import CollaboratorPresence from './CollaboratorPresence';
+import CypherExportDialog from './CypherExportDialog';
+import EntityInspector from './EntityInspector';
+import ExportMenu, { type ExportFormat } from './ExportMenu';
+import GraphPreviewPane from './GraphPreviewPane';
+import ImportDiagramDialog from './ImportDiagramDialog';
+import RelationshipInspector from './RelationshipInspector';
+import LoadDiagramDialog from './LoadDiagramDialog';
+import PatternQueryPane from './PatternQueryPane';
+import SyncReviewDialog from './SyncReviewDialog';
+import ValidationPanel from './ValidationPanel';
 
 // --- 1. CONFIGURATION AND TYPES ---
 
-// Define custom node types
-type CustomNodeType = 'company' | 'employee' | 'supplier';
-
 interface CustomNodeProps {
-  data: { label: string; name: string };
+  id: string;
+  type: string;
+  data: EntityNodeData;
   selected: boolean;
 }
 
-interface DraggableEntity {
-  type: CustomNodeType;
-  label: string;
-  icon: React.ElementType;
-  color: string;
-}
+// Persistence used when none is passed in (Neo4j when configured, the document store otherwise)
+const defaultDocumentStore = createDocumentStore();
+const defaultRepository = createCanvasRepository(defaultDocumentStore);
+const defaultAutosave = createAutosaveStore(defaultDocumentStore);
 
-const initialNodes: Node[] = [];
-const initialEdges: Edge[] = [];
+// Delay between the last canvas change and the autosave write
+const AUTOSAVE_DELAY_MS = 1000;
+// Delay between the last canvas change and reporting it to the workspace
+const WORKSPACE_SYNC_DELAY_MS = 300;
 
-// Node Icon Map
-const NodeIcons: Record<CustomNodeType, React.ElementType> = {
-  company: Building,
-  employee: User,
-  supplier: Truck,
-};
+// Used when the canvas is not part of a workspace
+const NO_CATALOGUE: CatalogueEntry[] = [];
+
+// From this many entities on, only the entities and connectors in view are rendered
+const LARGE_DIAGRAM_NODES = 1000;
+// Below this zoom level entities and connectors are drawn without details, which could not be read anyway
+const DETAIL_ZOOM = 0.4;
 
-// Define the available entities for the sidebar
-const draggableEntities: DraggableEntity[] = [
-  { type: 'company', label: 'Company', icon: Building, color: 'bg-emerald-500' },
-  { type: 'employee', label: 'Employee', icon: User, color: 'bg-blue-500' },
-  { type: 'supplier', label: 'Supplier', icon: Truck, color: 'bg-orange-500' },
-];
+// Selects a boolean, so entities and connectors only re-render when the zoom crosses the detail level
+const isZoomedOutSelector = (state: ReactFlowState): boolean => state.transform[2] < DETAIL_ZOOM;
+
+const miniMapNodeColor = (node: Node): string => (getEntityDefinition(node.type)?.color ?? UNKNOWN_ENTITY_COLOR).hex;
+
+// The available entities for the sidebar, in registry order
+const draggableEntities = ENTITY_TYPES.map((type) => ({ type, ...ENTITY_REGISTRY[type] }));
 
 // --- 2. CUSTOM COMPONENTS ---
 
+// Positions are applied by React Flow's node wrapper, so moving an entity does not re-render its card
+const sameNodeProps = (previous: CustomNodeProps, next: CustomNodeProps): boolean =>
+  previous.id === next.id && previous.type === next.type && previous.data === next.data && previous.selected === next.selected;
+
 // Custom Node Component
-const EntityNode: React.FC<CustomNodeProps> = ({ data, selected }) => {
-  // Use data.label to determine the icon
-  const Icon = NodeIcons[data.label.toLowerCase() as CustomNodeType];
+const EntityNode = memo<CustomNodeProps>(({ id, type, data, selected }) => {
+  const { updateNodeData, focusNode } = useCanvasActions();
+  const severity = useNodeValidation(id);
+  const isHovered = useIsHovered('node', id);
+  const isQueryMatch = useIsQueryMatch('node', id);
+  const isZoomedOut = useStore(isZoomedOutSelector);
+  const group = data.group;
+  const aliasOf = data.aliasOf;
+  // Use the node type to look up the icon and color in the entity registry
+  const definition = getEntityDefinition(type);
+  const Icon = definition?.icon;
 
-  const bgColor = selected ? 'bg-indigo-100 ring-2 ring-indigo-500' : 'bg-white ring-1 ring-gray-300';
+  // Selection wins over validation highlighting, so the selected entity is always recognisable
+  const ringColor = severity === 'error' ? 'ring-2 ring-red-500' : severity === 'warning' ? 'ring-2 ring-amber-400' : 'ring-1 ring-gray-300';
+  const bgColor = selected ? 'bg-indigo-100 ring-2 ring-indigo-500' : `bg-white ${ringColor}`;
+  // Hovering the entity's nodes in the graph preview outlines it here, as does a pattern query match
+  const hoverRing = isHovered ? 'outline outline-4 outline-sky-400' : isQueryMatch ? 'outline outline-4 outline-fuchsia-400' : '';
   const iconColor = selected ? 'text-indigo-600' : 'text-gray-600';
+  const borderColor = (definition?.color ?? UNKNOWN_ENTITY_COLOR).border;
+  // References are dashed all round, so they are not mistaken for entities of their own
+  const borderStyle = aliasOf ? 'border-2 border-dashed' : 'border-b-4';
 
-  const typeColorMap = {
-    company: 'border-emerald-500',
-    employee: 'border-blue-500',
-    supplier: 'border-orange-500',
-  };
-  const borderColor = typeColorMap[data.label.toLowerCase() as CustomNodeType] || 'border-gray-500';
+  const handles = (
+    <>
+      {/* Target handles (for incoming connections) on every side, under the source handles */}
+      {TARGET_SIDES.map((side) => (
+        <Handle
+          key={handleId('target', side)}
+          id={handleId('target', side)}
+          type="target"
+          position={side as Position}
+          className="w-3 h-3 bg-indigo-500/80 border-2 border-white"
+        />
+      ))}
+      {/* Source handles (for outgoing connections) on every side */}
+      {SOURCE_SIDES.map((side) => (
+        <Handle
+          key={handleId('source', side)}
+          id={handleId('source', side)}
+          type="source"
+          position={side as Position}
+          className="w-3 h-3 bg-indigo-500/80 border-2 border-white"
+        />
+      ))}
+    </>
+  );
+
+  // Zoomed out, the card only shows the entity's name, in the entity's colours
+  if (isZoomedOut) {
+    return (
+      <div className={`p-4 rounded-xl min-w-48 ${borderStyle} ${borderColor} ${bgColor} ${hoverRing}`}>
+        {handles}
+        <p className="font-bold text-lg text-gray-800 truncate">{data.name || `${data.label} Name...`}</p>
+      </div>
+    );
+  }
 
   return (
-    <div className={`p-4 shadow-lg rounded-xl transition-all duration-200 min-w-48 border-b-4 ${borderColor} ${bgColor}`}>
-      {/* Source Handle (for outgoing connections) */}
-      <Handle type="source" position={Position.Right} className="w-3 h-3 bg-indigo-500/80 border-2 border-white" />
+    <div className={`p-4 shadow-lg rounded-xl transition-all duration-200 min-w-48 ${borderStyle} ${borderColor} ${bgColor} ${hoverRing}`}>
+      {handles}
 
       <div className="flex items-center space-x-3">
         {Icon && <Icon className={`w-6 h-6 ${iconColor}`} />}
-        <input
-          type="text"
-          value={data.name}
-          // The data object is mutated directly, which is common in simple React Flow examples
-          // but for larger apps, you'd use a dedicated onChange handler to update state immutably.
-          onChange={(e) => (data.name = e.target.value)}
-          className="font-bold text-lg text-gray-800 w-full bg-transparent border-none focus:ring-0 focus:outline-none p-0 m-0"
-          placeholder={`${data.label} Name...`}
-        />
+        {aliasOf ? (
+          // A reference shows the name of its entity, which is only edited on the entity itself
+          <span className="font-bold text-lg text-gray-800 w-full">{data.name}</span>
+        ) : (
+          <input
+            type="text"
+            value={data.name}
+            onChange={(e) => updateNodeData(id, { name: e.target.value })}
+            className="nodrag font-bold text-lg text-gray-800 w-full bg-transparent border-none focus:ring-0 focus:outline-none p-0 m-0"
+            placeholder={`${data.label} Name...`}
+          />
+        )}
+        {group && (
+          <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">{group.members.length}</span>
+        )}
       </div>
-      <p className="text-sm text-gray-500 mt-1">{data.label} Entity</p>
-
-      {/* Target Handle (for incoming connections) */}
-      <Handle type="target" position={Position.Left} className="w-3 h-3 bg-indigo-500/80 border-2 border-white" />
+      {aliasOf ? (
+        <button
+          onClick={() => focusNode(aliasOf)}
+          className="nodrag flex items-center text-sm text-gray-500 mt-1 hover:text-indigo-600"
+        >
+          <Link2 className="w-4 h-4 mr-1" />
+          Reference to a {data.label}
+        </button>
+      ) : group ? (
+        <button
+          onClick={() => updateNodeData(id, { group: { ...group, expanded: !group.expanded } })}
+          className="nodrag flex items-center text-sm text-gray-500 mt-1 hover:text-indigo-600"
+        >
+          {group.expanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+          Group of {group.members.length} {data.label} entities
+        </button>
+      ) : (
+        <p className="text-sm text-gray-500 mt-1">{data.label} Entity</p>
+      )}
+      {group?.expanded && (
+        <ul className="nowheel mt-2 max-h-40 overflow-y-auto text-xs text-gray-700 border-t border-gray-200 pt-2 space-y-0.5">
+          {group.members.map((member) => (
+            <li key={member.id} className="truncate">{member.name || <span className="italic text-gray-400">Unnamed</span>}</li>
+          ))}
+        </ul>
+      )}
+      {definition?.properties
+        .filter((property) => data.properties?.[property.key] !== undefined)
+        .map((property) => (
+          <p key={property.key} className="text-xs text-gray-600">
+            <span className="font-semibold">{property.label}:</span> {data.properties?.[property.key]}
+          </p>
+        ))}
     </div>
   );
-};
+}, sameNodeProps);
 
 // Custom Edge Component
-const FlowEdge: React.FC<EdgeProps> = ({
+const FlowEdge = memo<EdgeProps<RelationshipEdgeData>>(({
   id,
+  data,
   sourceX,
   sourceY,
   sourcePosition,
@@ -117,7 +270,7 @@ const FlowEdge: React.FC<EdgeProps> = ({
   selected, // React Flow passes 'selected' automatically
 }) => {
   // Use the explicitly imported getBezierPath function
-  const [edgePath] = getBezierPath({
+  const [edgePath, labelX, labelY] = getBezierPath({
     sourceX,
     sourceY,
     sourcePosition,
@@ -126,9 +279,35 @@ const FlowEdge: React.FC<EdgeProps> = ({
     targetPosition,
   });
 
+  const severity = useEdgeValidation(id);
+  const isHovered = useIsHovered('edge', id);
+  const isQueryMatch = useIsQueryMatch('edge', id);
+  const isZoomedOut = useStore(isZoomedOutSelector);
+
   // Requirement 3: Connectors should have different colors representing different states
-  const strokeColor = selected ? 'stroke-indigo-600' : 'stroke-gray-500';
-  const strokeWidth = selected ? 3 : 2;
+  const issueColor = severity === 'error' ? 'stroke-red-500' : severity === 'warning' ? 'stroke-amber-500' : 'stroke-gray-500';
+  const strokeColor = isHovered ? 'stroke-sky-500' : selected ? 'stroke-indigo-600' : isQueryMatch ? 'stroke-fuchsia-500' : issueColor;
+  const strokeWidth = selected || isHovered || isQueryMatch ? 3 : 2;
+
+  // Zoomed out, connectors are plain lines without labels
+  if (isZoomedOut) {
+    return (
+      <path
+        id={id}
+        className={`react-flow__edge-path ${strokeColor}`}
+        d={edgePath}
+        strokeWidth={strokeWidth}
+        markerEnd="url(#arrowhead)"
+        markerStart={data?.bidirectional ? 'url(#arrowhead)' : undefined}
+        fill="none"
+      />
+    );
+  }
+
+  // Label shows the relationship type followed by any relationship properties
+  const propertySummary = (getRelationshipDefinition(data?.relationshipType)?.properties ?? [])
+    .filter((property) => data?.properties?.[property.key] !== undefined)
+    .map((property) => `${property.label}: ${data?.properties?.[property.key]}`);
 
   return (
     <g>
@@ -140,6 +319,7 @@ const FlowEdge: React.FC<EdgeProps> = ({
         strokeWidth={strokeWidth}
         // Ensure the marker is defined in the ReactFlow component's SVG defs
         markerEnd="url(#arrowhead)"
+        markerStart={data?.bidirectional ? 'url(#arrowhead)' : undefined}
         fill="none" // Important for paths
       />
       {/* Invisible path for easier touch/mouse interaction (wider click area) */}
@@ -148,46 +328,431 @@ const FlowEdge: React.FC<EdgeProps> = ({
         d={edgePath}
         style={{ strokeOpacity: 0, strokeWidth: 15 }}
       />
+      {data?.relationshipType && (
+        <EdgeLabelRenderer>
+          <div
+            style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+            className={`absolute px-2 py-0.5 rounded-md text-xs font-semibold shadow-sm pointer-events-none ${data.overridden ? 'bg-indigo-50 text-indigo-700 ring-1 ring-indigo-300' : 'bg-white text-gray-600 ring-1 ring-gray-200'}`}
+          >
+            {data.relationshipType}
+            {propertySummary.map((line) => (
+              <div key={line} className="font-normal text-gray-500">{line}</div>
+            ))}
+          </div>
+        </EdgeLabelRenderer>
+      )}
     </g>
   );
-};
+});
 
 // --- 3. MAIN APPLICATION COMPONENT ---
 
-const nodeTypes = {
-  company: EntityNode,
-  employee: EntityNode,
-  supplier: EntityNode,
-};
+// Every registered entity type is rendered by EntityNode
+const nodeTypes = Object.fromEntries(ENTITY_TYPES.map((type) => [type, EntityNode]));
 
 const edgeTypes = {
   customEdge: FlowEdge,
 };
 
-const FlowWrapper: React.FC = () => {
-  const [nodes, setNodes] = useNodesState(initialNodes);
-  const [edges, setEdges] = useEdgesState(initialEdges);
-  const { project } = useReactFlow(); // Remove screenToFlowPosition as it's often not needed after project() is available.
+interface CanvasContextsProps {
+  actions: CanvasActions;
+  highlights: ValueStore<ValidationHighlights>;
+  hovered: ValueStore<HoveredElement | null>;
+  queryMatches: ValueStore<QueryMatchHighlights>;
+  children: React.ReactNode;
+}
+
+// The contexts entities and connectors read, provided together so the canvas markup is not nested in each
+const CanvasContexts: React.FC<CanvasContextsProps> = ({ actions, highlights, hovered, queryMatches, children }) => (
+  <CanvasActionsContext.Provider value={actions}>
+    <ValidationHighlightContext.Provider value={highlights}>
+      <CanvasHoverContext.Provider value={hovered}>
+        <QueryMatchContext.Provider value={queryMatches}>{children}</QueryMatchContext.Provider>
+      </CanvasHoverContext.Provider>
+    </ValidationHighlightContext.Provider>
+  </CanvasActionsContext.Provider>
+);
+
+interface FlowWrapperProps {
+  repository: CanvasRepository;
+  autosave?: AutosaveStore;
+  // Only the visible canvas of a workspace handles keyboard shortcuts
+  isActive: boolean;
+  // Entities of the whole workspace, offered for dragging onto this canvas
+  catalogue: CatalogueEntry[];
+  // Latest name and properties of entities shared between diagrams, by entity id
+  sharedEntities?: ReadonlyMap<string, SharedEntityData>;
+  onStateChange?: (diagram: Omit<WorkspaceDiagram, 'id'>) => void;
+  // Diagram the canvas opens with instead of an empty one, e.g. a generated benchmark diagram
+  initialDiagram?: Omit<WorkspaceDiagram, 'id'>;
+}
+
+const FlowWrapper: React.FC<FlowWrapperProps> = ({
+  repository,
+  autosave,
+  isActive,
+  catalogue,
+  sharedEntities,
+  onStateChange,
+  initialDiagram,
+}) => {
+  // The canvas model; every change is dispatched to the store as an action
+  const { store, state: canvasState, dispatch } = useCanvasStore(initialDiagram?.state);
+  const { nodes, edges } = canvasState;
+  const { project, fitView } = useReactFlow(); // Remove screenToFlowPosition as it's often not needed after project() is available.
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalMessage, setModalMessage] = useState('');
+  const [isModalError, setIsModalError] = useState(false);
+  const [cypherScript, setCypherScript] = useState<string | null>(null);
+  const apocInputRef = useRef<HTMLInputElement>(null);
+  const [diagramId, setDiagramId] = useState<string>(() => crypto.randomUUID());
+  const [diagramName, setDiagramName] = useState(initialDiagram?.name ?? 'Untitled Diagram');
+  const [isLoadDialogOpen, setIsLoadDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
+  const [isCollaborationOpen, setIsCollaborationOpen] = useState(false);
+  const [collaboration, setCollaboration] = useState<CollaborationSession | null>(null);
+  const [isGraphPreviewOpen, setIsGraphPreviewOpen] = useState(false);
+  // Element hovered on the canvas or in the graph preview, highlighted in both
+  const [hovered, setHovered] = useState<HoveredElement | null>(null);
+  const [isQueryOpen, setIsQueryOpen] = useState(false);
+  const [pattern, setPattern] = useState<GraphPattern | null>(null);
+  // Autosave stays off until the previous session's snapshot has been checked for recovery
+  const [isRecoveryChecked, setIsRecoveryChecked] = useState(!autosave);
+  // The last explicitly saved or loaded state, used to flag unsaved changes and to review changes on save
+  const savedStateRef = useRef<CanvasState>({ nodes: [], edges: [] });
+  // The last saved state and the state awaiting confirmation in the save review dialog
+  const [review, setReview] = useState<{ before: CanvasState; after: CanvasState } | null>(null);
+
+  const restoreSnapshot = useCallback(
+    (snapshot: CanvasSnapshot<CanvasEntityNode, RelationshipEdge>) => dispatch({ type: 'replaceCanvas', state: snapshot }),
+    [dispatch]
+  );
+  const history = useCanvasHistory({ nodes, edges, restore: restoreSnapshot, shortcutsEnabled: isActive });
+  const { record, seal, reset: resetHistory } = history;
+
+  const showModal = useCallback((message: string, isError: boolean) => {
+    setModalMessage(message);
+    setIsModalError(isError);
+    setIsModalOpen(true);
+  }, []);
+
+  const updateNodeData = useCallback((id: string, patch: Partial<EntityNodeData>) => {
+    // Typing into the same field of the same entity is one undo step
+    record('Edit entity', `node:${id}:${Object.keys(patch).join(',')}`);
+    dispatch({ type: 'updateNodeData', id, patch });
+  }, [record, dispatch]);
+
+  const updateEdgeData = useCallback((id: string, patch: Partial<RelationshipEdgeData>) => {
+    record('Edit connection', `edge:${id}:${Object.keys(patch).join(',')}`);
+    dispatch({ type: 'updateEdgeData', id, patch });
+  }, [record, dispatch]);
 
-  // Handle node and edge changes
+  // Group and ungroup replace nodes and re-point connectors, so they work on the whole canvas state
+  const handleGroupSelected = useCallback(() => {
+    const result = groupNodes(
+      { nodes, edges },
+      nodes.filter((node) => node.selected).map((node) => node.id)
+    );
+    if (!result.ok) {
+      showModal(result.reason, true);
+      return;
+    }
+    record('Group');
+    dispatch({ type: 'replaceCanvas', state: result.state });
+  }, [nodes, edges, record, dispatch, showModal]);
+
+  // Actions of node components read the canvas from the store, so they stay the same across
+  // canvas changes and do not re-render every entity
+  const handleUngroup = useCallback((id: string) => {
+    const state = ungroupNode(store.getState(), id);
+    record('Ungroup');
+    dispatch({ type: 'replaceCanvas', state });
+  }, [store, record, dispatch]);
+
+  const handleReverseEdge = useCallback((id: string) => {
+    const { nodes, edges } = store.getState();
+    const edge = edges.find((candidate) => candidate.id === id);
+    if (!edge) {
+      return;
+    }
+    const result = reverseConnector(edge, nodes);
+    if (!result.ok) {
+      showModal(`The connection cannot be reversed. ${result.reason}`, true);
+      return;
+    }
+    record('Reverse connection');
+    dispatch({ type: 'replaceEdge', edge: result.edge });
+  }, [store, record, dispatch, showModal]);
+
+  const handleCreateAlias = useCallback((id: string) => {
+    const result = createAlias(store.getState(), id);
+    if (!result.ok) {
+      showModal(result.reason, true);
+      return;
+    }
+    record('Add reference');
+    dispatch({ type: 'replaceCanvas', state: result.state });
+  }, [store, record, dispatch, showModal]);
+
+  const handleFocusNode = useCallback((id: string) => {
+    dispatch({ type: 'select', nodeIds: [id], edgeIds: [] });
+    fitView({ nodes: [{ id }], padding: 0.5, duration: 400, maxZoom: 1.5 });
+  }, [dispatch, fitView]);
+
+  const handleMergeDuplicates = useCallback(() => {
+    const { state, merged, droppedConnectors } = mergeDuplicates({ nodes, edges });
+    if (merged === 0) {
+      return;
+    }
+    record('Merge duplicates');
+    dispatch({ type: 'replaceCanvas', state });
+    const dropped =
+      droppedConnectors > 0
+        ? ` ${droppedConnectors} ${droppedConnectors === 1 ? 'connector' : 'connectors'} between duplicates of the same entity ${droppedConnectors === 1 ? 'was' : 'were'} removed.`
+        : '';
+    showModal(`Merged ${merged} ${merged === 1 ? 'set' : 'sets'} of duplicate entities. The duplicates are now references.${dropped}`, false);
+  }, [nodes, edges, record, dispatch, showModal]);
+
+  const canvasActions = useMemo<CanvasActions>(
+    () => ({
+      updateNodeData,
+      updateEdgeData,
+      ungroupNode: handleUngroup,
+      reverseEdge: handleReverseEdge,
+      createAlias: handleCreateAlias,
+      focusNode: handleFocusNode,
+    }),
+    [updateNodeData, updateEdgeData, handleUngroup, handleReverseEdge, handleCreateAlias, handleFocusNode]
+  );
+
+  // An inspector is shown when exactly one entity, or exactly one connector, is selected
+  const selectedNodes = nodes.filter((node) => node.selected);
+  const selectedEdges = edges.filter((edge) => edge.selected);
+  const inspectedNode = selectedNodes.length === 1 ? selectedNodes[0] : undefined;
+  const inspectedEdge = selectedNodes.length === 0 && selectedEdges.length === 1 ? selectedEdges[0] : undefined;
+
+  const applyClipboardChange = useCallback((label: string, state: CanvasState) => {
+    record(label);
+    dispatch({ type: 'replaceCanvas', state });
+  }, [record, dispatch]);
+  const showClipboardError = useCallback((message: string) => showModal(message, true), [showModal]);
+  const { duplicate: handleDuplicateSelected } = useCanvasClipboard({
+    state: canvasState,
+    onChange: applyClipboardChange,
+    onError: showClipboardError,
+    enabled: isActive,
+  });
+
+  // Collaborators' changes are not undo steps of their own; joining a room in use is one
+  const handleRemoteState = useCallback((state: CanvasState, isJoin: boolean) => {
+    if (isJoin) {
+      record('Join session');
+    }
+    dispatch({ type: 'replaceCanvas', state });
+  }, [record, dispatch]);
+  const { status: collaborationStatus, peers, moveCursor } = useCollaboration({
+    session: collaboration,
+    store,
+    onRemoteState: handleRemoteState,
+  });
+  const handleCanvasMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+    if (collaboration) {
+      const bounds = event.currentTarget.getBoundingClientRect();
+      moveCursor(project({ x: event.clientX - bounds.left, y: event.clientY - bounds.top }));
+    }
+  }, [collaboration, moveCursor, project]);
+
+  // Whole-model checks run on a deferred copy of the canvas, so typing and dragging stay responsive
+  // on large diagrams; they catch up as soon as the canvas is idle
+  const deferredState = useDeferredValue(canvasState);
+
+  // Live model validation, shown in the sidebar and highlighted on the canvas
+  const issues = useMemo(() => validateModel(deferredState), [deferredState]);
+  const highlights = useMemo(() => highlightsForIssues(issues), [issues]);
+  const duplicateSetCount = useMemo(() => findDuplicates(deferredState).length, [deferredState]);
+
+  // Select the elements an issue refers to and bring them into view
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    const endpoints = edges
+      .filter((edge) => issue.edgeIds.includes(edge.id))
+      .flatMap((edge) => [edge.source, edge.target]);
+    const focusIds = new Set([...issue.nodeIds, ...endpoints]);
+    dispatch({ type: 'select', nodeIds: issue.nodeIds, edgeIds: issue.edgeIds });
+    fitView({ nodes: [...focusIds].map((id) => ({ id })), padding: 0.5, duration: 400, maxZoom: 1.5 });
+  }, [edges, dispatch, fitView]);
+
+  // Query mode: the pattern is matched against the current model while the query pane is open
+  const evaluation = useMemo(
+    () => (isQueryOpen && pattern ? evaluatePattern(pattern, inferGraph(deferredState)) : null),
+    [isQueryOpen, pattern, deferredState]
+  );
+  const queryHighlights = useMemo(() => highlightsForMatches(evaluation?.matches ?? []), [evaluation]);
+
+  // Highlights reach entities and connectors through stores, so each one only re-renders when its own highlight changes
+  const highlightStore = useValueStoreFor(highlights);
+  const hoverStore = useValueStoreFor(hovered);
+  const queryHighlightStore = useValueStoreFor(queryHighlights);
+  const handleNodeMouseEnter = useCallback((_: React.MouseEvent, node: Node) => setHovered({ kind: 'node', id: node.id }), []);
+  const handleEdgeMouseEnter = useCallback((_: React.MouseEvent, edge: Edge) => setHovered({ kind: 'edge', id: edge.id }), []);
+  const clearHovered = useCallback(() => setHovered(null), []);
+
+  const handleUseSelection = useCallback(() => {
+    const result = patternFromSelection(
+      canvasState,
+      selectedNodes.map((node) => node.id),
+      selectedEdges.map((edge) => edge.id)
+    );
+    if (!result.ok) {
+      showModal(result.reason, true);
+      return;
+    }
+    setPattern(result.pattern);
+  }, [canvasState, selectedNodes, selectedEdges, showModal]);
+
+  // Select the canvas elements of a match and bring them into view
+  const handleSelectMatch = useCallback((match: PatternMatch) => {
+    const nodeIds = new Set(Object.values(match.nodes).map((node) => node.canvasId));
+    const edgeIds = new Set(Object.values(match.relationships).map((relationship) => relationship.canvasId));
+    dispatch({ type: 'select', nodeIds: [...nodeIds], edgeIds: [...edgeIds] });
+    fitView({ nodes: [...nodeIds].map((id) => ({ id })), padding: 0.5, duration: 400, maxZoom: 1.5 });
+  }, [dispatch, fitView]);
+
+  // Crash recovery: restore the working canvas from the last autosave snapshot
+  useEffect(() => {
+    if (!autosave) {
+      return;
+    }
+    autosave
+      .read()
+      .then((snapshot) => {
+        if (!snapshot || snapshot.state.nodes.length === 0) {
+          return;
+        }
+        dispatch({ type: 'replaceCanvas', state: snapshot.state });
+        resetHistory();
+        setDiagramId(snapshot.diagramId);
+        setDiagramName(snapshot.name);
+        if (snapshot.hasUnsavedChanges) {
+          showModal(`Recovered unsaved changes from ${new Date(snapshot.savedAt).toLocaleString()}.`, false);
+          // The last saved version (if the diagram was ever saved) is the baseline for the next save review
+          repository
+            .load(snapshot.diagramId)
+            .then((diagram) => {
+              savedStateRef.current = diagram.state;
+            })
+            .catch(() => undefined);
+        } else {
+          savedStateRef.current = snapshot.state;
+        }
+      })
+      .catch((err) => console.error('Failed to read autosave snapshot:', err))
+      .finally(() => setIsRecoveryChecked(true));
+  }, [autosave, repository, dispatch, resetHistory, showModal]);
+
+  // Shared entities edited on another diagram of the workspace are brought up to date here
+  useEffect(() => {
+    if (sharedEntities) {
+      dispatch({ type: 'applySharedEntities', shared: sharedEntities });
+    }
+  }, [sharedEntities, dispatch]);
+
+  // Report the canvas to the workspace shortly after every change
+  useEffect(() => {
+    if (!onStateChange || !isRecoveryChecked) {
+      return;
+    }
+    const timeout = setTimeout(() => onStateChange({ name: diagramName, state: canvasState }), WORKSPACE_SYNC_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [onStateChange, isRecoveryChecked, diagramName, canvasState]);
+
+  // Workspace entities that are not on this canvas yet
+  const catalogueEntries = useMemo(() => {
+    const ids = new Set(nodes.map((node) => node.id));
+    return catalogue.filter((entry) => !ids.has(entry.id));
+  }, [catalogue, nodes]);
+
+  // Autosave the working canvas shortly after every change
+  useEffect(() => {
+    if (!autosave || !isRecoveryChecked) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      const state = { nodes, edges };
+      autosave
+        .write({
+          diagramId,
+          name: diagramName,
+          hasUnsavedChanges: fingerprintCanvas(state) !== fingerprintCanvas(savedStateRef.current),
+          state,
+        })
+        .catch((err) => console.error('Failed to autosave canvas:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [autosave, isRecoveryChecked, nodes, edges, diagramId, diagramName]);
+
+  // Handle node and edge changes. Deletes and drags are recorded for undo; selection and
+  // measurement changes are not. All moves of one drag become a single step.
   const onNodesChange = useCallback(
-    (changes: any) => setNodes((nds) => applyNodeChanges(changes, nds)),
-    [setNodes]
+    (changes: NodeChange[]) => {
+      if (changes.some((change) => change.type === 'remove')) {
+        record('Delete');
+      }
+      const moves = changes.filter((change) => change.type === 'position');
+      if (moves.some((change) => change.dragging)) {
+        record('Move', `move:${moves.map((change) => change.id).join(',')}`);
+      } else if (moves.length > 0) {
+        seal();
+      }
+      dispatch({ type: 'applyNodeChanges', changes });
+    },
+    [record, seal, dispatch]
   );
   const onEdgesChange = useCallback(
-    (changes: any) => setEdges((eds) => applyEdgeChanges(changes, eds)),
-    [setEdges]
+    (changes: EdgeChange[]) => {
+      if (changes.some((change) => change.type === 'remove')) {
+        record('Delete');
+      }
+      dispatch({ type: 'applyEdgeChanges', changes });
+    },
+    [record, dispatch]
   );
 
   // Handle new connection (Requirement 2: Linking entities)
   const onConnect = useCallback(
     (connection: Connection | Edge) => {
+      if (!connection.source || !connection.target) {
+        return;
+      }
+
+      // Connectors are unlabelled, so the relationship is inferred from the entity types at each end
+      const inference = inferEdgeRelationship(
+        { source: connection.source, target: connection.target },
+        nodes
+      );
+      if (!inference.ok) {
+        showModal(`Connection rejected. ${inference.reason}`, true);
+        return;
+      }
+
+      const data: RelationshipEdgeData = {
+        relationshipType: inference.rule.relationshipType,
+        direction: inference.rule.direction,
+      };
+      record('Connect');
+      // Connections may be dropped on either kind of handle; they are saved as source-to-target
+      const handles = {
+        sourceHandle: handleOfKind('source', connection.sourceHandle),
+        targetHandle: handleOfKind('target', connection.targetHandle),
+      };
       // Use 'customEdge' type here to apply custom styling
-      setEdges((eds) => addEdge({ ...connection, type: 'customEdge', animated: true }, eds));
+      const { source, target } = connection;
+      dispatch({
+        type: 'connect',
+        edge: { ...connection, ...handles, id: generateUniqueId('edge'), source, target, type: 'customEdge', animated: true, data },
+      });
     },
-    [setEdges]
+    [nodes, record, dispatch, showModal]
   );
 
   // Allow drop on canvas
@@ -204,10 +769,12 @@ const FlowWrapper: React.FC = () => {
       // Calculate position relative to the flow view
       const reactFlowBounds = (event.target as HTMLElement).closest('.reactflow-wrapper')?.getBoundingClientRect();
 
-      const type = event.dataTransfer.getData('application/reactflow/type') as CustomNodeType;
+      const type = event.dataTransfer.getData('application/reactflow/type');
       const label = event.dataTransfer.getData('application/reactflow/label');
+      const entityId = event.dataTransfer.getData('application/reactflow/entity');
+      const entry = catalogue.find((candidate) => candidate.id === entityId);
 
-      if (!type || !label || !reactFlowBounds) {
+      if (!reactFlowBounds || (!entry && (!isEntityType(type) || !label))) {
         return;
       }
 
@@ -217,16 +784,27 @@ const FlowWrapper: React.FC = () => {
         y: event.clientY - reactFlowBounds.top,
       });
 
-      const newNode: Node = {
+      // A workspace entity keeps its id, so every diagram showing it stands for the same node
+      if (entry) {
+        record('Add shared entity');
+        const node: CanvasEntityNode = store.getState().nodes.some((candidate) => candidate.id === entry.id)
+          ? { id: crypto.randomUUID(), type: entry.type, position, data: { label: entry.label, name: entry.name, aliasOf: entry.id } }
+          : { id: entry.id, type: entry.type, position, data: { label: entry.label, name: entry.name, properties: entry.properties } };
+        dispatch({ type: 'addElements', nodes: [node], edges: [] });
+        return;
+      }
+
+      const newNode: CanvasEntityNode = {
         id: crypto.randomUUID(),
         type,
         position,
         data: { label, name: `${label} 1` },
       };
 
-      setNodes((nds) => nds.concat(newNode));
+      record('Add entity');
+      dispatch({ type: 'addElements', nodes: [newNode], edges: [] });
     },
-    [setNodes, project]
+    [catalogue, store, record, dispatch, project]
   );
 
   // Sidebar Drag Start
@@ -236,16 +814,104 @@ const FlowWrapper: React.FC = () => {
     event.dataTransfer.effectAllowed = 'move';
   };
 
+  const onCatalogueDragStart = (event: React.DragEvent, entry: CatalogueEntry) => {
+    event.dataTransfer.setData('application/reactflow/entity', entry.id);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
   // Handle Save (Requirement 4: Save button logic)
   const handleSave = useCallback(async () => {
     if (nodes.length === 0) {
-      setModalMessage("Cannot save. The canvas is empty. Drag some entities onto the board first!");
-      setIsModalOpen(true);
+      showModal("Cannot save. The canvas is empty. Drag some entities onto the board first!", true);
+      return;
+    }
+
+    // Errors block saving; warnings are reported with the result
+    const errorCount = countBySeverity(issues, 'error');
+    if (errorCount > 0) {
+      showModal(`Cannot save. The model has ${errorCount} ${errorCount === 1 ? 'error' : 'errors'}; see the Validation panel.`, true);
+      return;
+    }
+
+    // Changes since the last save are reviewed before anything is written
+    setReview({ before: savedStateRef.current, after: { nodes, edges } });
+  }, [nodes, edges, issues, showModal]);
+
+  // Save the reviewed state to the repository
+  const handleConfirmSave = useCallback(async () => {
+    if (!review) {
       return;
     }
+    setReview(null);
+    const warningCount = countBySeverity(issues, 'warning');
 
-    // 1. Serialize the state to a JSON string
-    const flowState = { nodes, edges };
+    try {
+      // Only what changed is written where the repository supports it
+      const summary = isSyncingRepository(repository)
+        ? await repository.applySync(diagramId, diagramName, review.before, review.after)
+        : await repository.save(diagramId, diagramName, review.after);
+      savedStateRef.current = review.after;
+      const warnings = warningCount > 0 ? ` ${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'} remain.` : '';
+      showModal(`Success! Saved "${summary.name}" with ${summary.entityCount} entities and ${summary.connectionCount} connections.${warnings}`, false);
+    } catch (err) {
+      console.error('Failed to save diagram:', err);
+      showModal(`Error: ${err instanceof Error ? err.message : 'Failed to save the diagram.'}`, true);
+    }
+  }, [review, issues, repository, diagramId, diagramName, showModal]);
+
+  // Load a saved diagram (or one of its prior versions) from the repository, replacing the current canvas
+  const handleLoad = useCallback(async (id: string, version?: number) => {
+    setIsLoadDialogOpen(false);
+    try {
+      const diagram = version !== undefined && isVersionedRepository(repository)
+        ? await repository.loadVersion(id, version)
+        : await repository.load(id);
+      savedStateRef.current = diagram.state;
+      dispatch({ type: 'replaceCanvas', state: diagram.state });
+      resetHistory();
+      setDiagramId(diagram.id);
+      setDiagramName(diagram.name);
+    } catch (err) {
+      console.error('Failed to load diagram:', err);
+      showModal(`Error: ${err instanceof Error ? err.message : 'Failed to load the diagram.'}`, true);
+    }
+  }, [repository, dispatch, resetHistory, showModal]);
+
+  // Open graph data created outside the modeler as a new, unsaved diagram
+  const handleOpenGraph = useCallback(async () => {
+    setIsLoadDialogOpen(false);
+    if (!isGraphSourceRepository(repository)) {
+      return;
+    }
+    try {
+      const { state, truncated } = await repository.readGraph();
+      dispatch({ type: 'replaceCanvas', state });
+      resetHistory();
+      savedStateRef.current = { nodes: [], edges: [] };
+      setDiagramId(crypto.randomUUID());
+      setDiagramName('Neo4j Graph');
+      const more = truncated ? ' The graph has more entities than can be opened at once; the rest were left out.' : '';
+      showModal(`Opened ${state.nodes.length} entities and ${state.edges.length} connections from Neo4j.${more}`, false);
+    } catch (err) {
+      console.error('Failed to read the Neo4j graph:', err);
+      showModal(`Error: ${err instanceof Error ? err.message : 'Failed to read the Neo4j graph.'}`, true);
+    }
+  }, [repository, dispatch, resetHistory, showModal]);
+
+  const handleRepositoryError = useCallback((message: string) => {
+    setIsLoadDialogOpen(false);
+    showModal(`Error: ${message}`, true);
+  }, [showModal]);
+
+  // Copy the raw canvas state to the clipboard as JSON
+  const handleCopyJson = useCallback(async () => {
+    if (nodes.length === 0) {
+      showModal("Cannot copy. The canvas is empty. Drag some entities onto the board first!", true);
+      return;
+    }
+
+    // 1. Serialize the state to a JSON string, in the current versioned document format
+    const flowState = toCanvasDocument({ nodes, edges });
     const flowJSON = JSON.stringify(flowState, null, 2); // Use 2-space indentation for readability
 
     try {
@@ -253,16 +919,104 @@ const FlowWrapper: React.FC = () => {
       await navigator.clipboard.writeText(flowJSON);
 
       // 3. Update the message
-      setModalMessage(`Success! Copied ${nodes.length} entities and ${edges.length} connections to clipboard as JSON.`);
+      showModal(`Success! Copied ${nodes.length} entities and ${edges.length} connections to clipboard as JSON.`, false);
 
     } catch (err) {
       // Handle potential security errors (e.g., non-secure context)
       console.error('Failed to copy to clipboard:', err);
-      setModalMessage("Error: Failed to copy to clipboard. Ensure the page is served over HTTPS or use the console to view the state.");
+      showModal("Error: Failed to copy to clipboard. Ensure the page is served over HTTPS or use the console to view the state.", true);
     }
-    setIsModalOpen(true);
+  }, [nodes, edges, showModal]);
+
+  // Replace the canvas with an imported (and, if needed, migrated) diagram
+  const handleImportJson = useCallback((state: CanvasState, warnings: ImportIssue[], fromVersion: number) => {
+    setIsImportDialogOpen(false);
+    record('Import JSON');
+    dispatch({ type: 'replaceCanvas', state });
+    const migration = fromVersion < CURRENT_SCHEMA_VERSION
+      ? ` Migrated from format v${fromVersion} to v${CURRENT_SCHEMA_VERSION}.`
+      : '';
+    const notes = warnings.length > 0 ? ` Warnings: ${warnings.map(formatImportIssue).join(' ')}` : '';
+    showModal(`Imported ${state.nodes.length} entities and ${state.edges.length} connections.${migration}${notes}`, false);
+  }, [record, dispatch, showModal]);
+
+  // Add the entities (and connectors) of a bulk import, selected so they can be moved together
+  const handleBulkImport = useCallback((plan: BulkImportPlan) => {
+    setIsBulkImportOpen(false);
+    record('Import CSV');
+    dispatch({ type: 'addElements', nodes: plan.state.nodes, edges: plan.state.edges, select: true });
+    const skipped = plan.skippedRows > 0 ? ` Skipped ${plan.skippedRows} ${plan.skippedRows === 1 ? 'row' : 'rows'}.` : '';
+    showModal(`Imported ${plan.state.nodes.length} entities and ${plan.state.edges.length} connections.${skipped}`, false);
+  }, [record, dispatch, showModal]);
+
+  // Generate a Cypher script for the inferred graph and show it for copying
+  const handleExportCypher = useCallback(() => {
+    if (nodes.length === 0) {
+      showModal("Cannot export. The canvas is empty. Drag some entities onto the board first!", true);
+      return;
+    }
+    setCypherScript(toCypherScript(generateCypher({ nodes, edges })));
+  }, [nodes, edges, showModal]);
+
+  // Download the canvas in the APOC JSON format, with UI properties on nodes and relationships
+  const handleExportApoc = useCallback(() => {
+    const graph = canvasToApoc({ nodes, edges });
+    downloadFile('graph.json', JSON.stringify(graph, null, 2), 'application/json');
   }, [nodes, edges]);
 
+  // Download the canvas as an image, or the inferred graph for another tool, named after the diagram
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    if (nodes.length === 0) {
+      showModal("Cannot export. The canvas is empty. Drag some entities onto the board first!", true);
+      return;
+    }
+    const baseName = diagramName.trim().replace(/[^\w-]+/g, '_') || 'diagram';
+    try {
+      switch (format) {
+        case 'svg':
+          downloadFile(`${baseName}.svg`, canvasToSvg(canvasState), 'image/svg+xml');
+          break;
+        case 'png':
+          downloadFile(`${baseName}.png`, await svgToPng(canvasToSvg(canvasState)), 'image/png');
+          break;
+        case 'mermaid':
+          downloadFile(`${baseName}.mmd`, toMermaid(inferGraph(canvasState)), 'text/plain');
+          break;
+        case 'graphml':
+          downloadFile(`${baseName}.graphml`, toGraphML(inferGraph(canvasState)), 'application/graphml+xml');
+          break;
+        case 'dot':
+          downloadFile(`${baseName}.dot`, toDot(inferGraph(canvasState), diagramName), 'text/vnd.graphviz');
+          break;
+      }
+    } catch (err) {
+      console.error('Failed to export diagram:', err);
+      showModal(`Error: ${err instanceof Error ? err.message : 'Failed to export the diagram.'}`, true);
+    }
+  }, [nodes, canvasState, diagramName, showModal]);
+
+  // Load an APOC JSON export back onto the canvas, replacing the current diagram
+  const handleImportApoc = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) {
+        return;
+      }
+
+      try {
+        const state = apocToCanvas(parseApocJson(await file.text()));
+        record('Import APOC');
+        dispatch({ type: 'replaceCanvas', state });
+        showModal(`Loaded ${state.nodes.length} entities and ${state.edges.length} connections from ${file.name}.`, false);
+      } catch (err) {
+        console.error('Failed to import APOC export:', err);
+        showModal(`Error: ${err instanceof Error ? err.message : 'Failed to import the APOC export.'}`, true);
+      }
+    },
+    [record, dispatch, showModal]
+  );
+
   // Modal Component
   const Modal = () => (
     <div className={`fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 transition-opacity ${isModalOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -273,7 +1027,7 @@ const FlowWrapper: React.FC = () => {
             <X className="w-5 h-5" />
           </button>
         </div>
-        <p className={`text-md ${nodes.length > 0 ? 'text-emerald-600' : 'text-red-600'}`}>{modalMessage}</p>
+        <p className={`text-md ${isModalError ? 'text-red-600' : 'text-emerald-600'}`}>{modalMessage}</p>
         <div className="mt-6 flex justify-end">
           <button
             onClick={() => setIsModalOpen(false)}
@@ -287,96 +1041,341 @@ const FlowWrapper: React.FC = () => {
   );
 
   return (
-    <div className="h-screen w-screen flex flex-col bg-gray-50 font-inter">
-      {/* Header/Controls */}
-      <div className="flex items-center justify-between p-4 bg-white shadow-md border-b border-gray-100 flex-shrink-0">
-        <h1 className="text-2xl font-extrabold text-gray-800">
-          Business <span className="text-indigo-600">Modeler</span>
-        </h1>
-        <button
-          onClick={handleSave}
-          className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 active:scale-95"
-        >
-          <Save className="w-5 h-5 mr-2" />
-          Save Diagram
-        </button>
-      </div>
-
-      <div className="flex flex-grow overflow-hidden">
-        {/* Sidebar */}
-        <aside className="w-64 p-4 bg-gray-50 border-r border-gray-200 flex-shrink-0 overflow-y-auto">
-          <h2 className="text-lg font-semibold mb-4 text-gray-700">Entities</h2>
-          {draggableEntities.map((entity) => (
-            <div
-              key={entity.type}
-              className={`p-3 mb-3 cursor-grab rounded-lg shadow-md bg-white border-l-4 ${entity.color.replace('bg-', 'border-')} hover:shadow-lg transition-shadow duration-200 active:ring-4 active:ring-opacity-50 active:ring-indigo-300`}
-              onDragStart={(event) => onDragStart(event, entity.type, entity.label)}
-              draggable
+    <CanvasContexts actions={canvasActions} highlights={highlightStore} hovered={hoverStore} queryMatches={queryHighlightStore}>
+      <div className="h-full w-full flex flex-col bg-gray-50 font-inter">
+        {/* Header/Controls */}
+        <div className="flex items-center justify-between p-4 bg-white shadow-md border-b border-gray-100 flex-shrink-0">
+          <div className="flex items-center space-x-4">
+            <h1 className="text-2xl font-extrabold text-gray-800">
+              Business <span className="text-indigo-600">Modeler</span>
+            </h1>
+            <input
+              type="text"
+              value={diagramName}
+              onChange={(e) => setDiagramName(e.target.value)}
+              className="px-2 py-1 text-gray-700 border-b-2 border-transparent focus:border-indigo-500 focus:outline-none"
+              title="Diagram name"
+            />
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              className="p-2 text-indigo-600 rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Undo2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="p-2 text-indigo-600 rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 disabled:opacity-40 disabled:hover:bg-transparent"
             >
-              <div className="flex items-center space-x-3">
-                <entity.icon className={`w-5 h-5 ${entity.color.replace('bg-', 'text-')}`} />
-                <span className="font-medium text-gray-800">{entity.label}</span>
+              <Redo2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setIsGraphPreviewOpen((open) => !open)}
+              className={`flex items-center px-4 py-2 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 transition duration-150 active:scale-95 ${isGraphPreviewOpen ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              <Network className="w-5 h-5 mr-2" />
+              Graph Preview
+            </button>
+            <button
+              onClick={() => setIsQueryOpen((open) => !open)}
+              className={`flex items-center px-4 py-2 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 transition duration-150 active:scale-95 ${isQueryOpen ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              <Search className="w-5 h-5 mr-2" />
+              Query
+            </button>
+            <button
+              onClick={() => setIsCollaborationOpen(true)}
+              className={`flex items-center px-4 py-2 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 transition duration-150 active:scale-95 ${collaboration ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              <Users className="w-5 h-5 mr-2" />
+              {collaboration ? `Live (${peers.length + 1})` : 'Collaborate'}
+            </button>
+            <input ref={apocInputRef} type="file" accept=".json,.jsonl" className="hidden" onChange={handleImportApoc} />
+            <button
+              onClick={() => apocInputRef.current?.click()}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <Upload className="w-5 h-5 mr-2" />
+              Import APOC
+            </button>
+            <button
+              onClick={handleExportApoc}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <Download className="w-5 h-5 mr-2" />
+              Export APOC
+            </button>
+            <button
+              onClick={handleExportCypher}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <Database className="w-5 h-5 mr-2" />
+              Export Cypher
+            </button>
+            <ExportMenu onExport={handleExport} />
+            <button
+              onClick={() => setIsImportDialogOpen(true)}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <FileUp className="w-5 h-5 mr-2" />
+              Import JSON
+            </button>
+            <button
+              onClick={() => setIsBulkImportOpen(true)}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <FileSpreadsheet className="w-5 h-5 mr-2" />
+              Import CSV
+            </button>
+            <button
+              onClick={handleCopyJson}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <ClipboardCopy className="w-5 h-5 mr-2" />
+              Copy JSON
+            </button>
+            <button
+              onClick={() => setIsLoadDialogOpen(true)}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 active:scale-95"
+            >
+              <FolderOpen className="w-5 h-5 mr-2" />
+              Load Diagram
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150 active:scale-95"
+            >
+              <Save className="w-5 h-5 mr-2" />
+              Save Diagram
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-grow overflow-hidden">
+          {/* Sidebar */}
+          <aside className="w-64 p-4 bg-gray-50 border-r border-gray-200 flex-shrink-0 overflow-y-auto">
+            <h2 className="text-lg font-semibold mb-4 text-gray-700">Entities</h2>
+            {draggableEntities.map((entity) => (
+              <div
+                key={entity.type}
+                className={`p-3 mb-3 cursor-grab rounded-lg shadow-md bg-white border-l-4 ${entity.color.border} hover:shadow-lg transition-shadow duration-200 active:ring-4 active:ring-opacity-50 active:ring-indigo-300`}
+                onDragStart={(event) => onDragStart(event, entity.type, entity.label)}
+                draggable
+              >
+                <div className="flex items-center space-x-3">
+                  <entity.icon className={`w-5 h-5 ${entity.color.text}`} />
+                  <span className="font-medium text-gray-800">{entity.label}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{entity.description}</p>
               </div>
-              <p className="text-xs text-gray-500 mt-1">Drag onto canvas to create entity</p>
-            </div>
-          ))}
-        </aside>
-
-        {/* React Flow Canvas */}
-        {/* Added reactflow-wrapper class for drop position calculation */}
-        <div className="flex-grow h-full reactflow-wrapper">
-          <ReactFlow
-            nodes={nodes}
-            edges={edges}
-            onNodesChange={onNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
-            onDragOver={onDragOver}
-            onDrop={onDrop}
-            nodeTypes={nodeTypes}
-            edgeTypes={edgeTypes}
-            fitView
+            ))}
+            {catalogueEntries.length > 0 && (
+              <div className="mb-4">
+                <h2 className="text-lg font-semibold mb-1 text-gray-700">Shared Entities</h2>
+                <p className="text-xs text-gray-500 mb-2">From the other diagrams. Drag one onto the canvas to show it here too.</p>
+                {catalogueEntries.map((entry) => {
+                  const definition = getEntityDefinition(entry.type);
+                  const Icon = definition?.icon;
+                  const color = definition?.color ?? UNKNOWN_ENTITY_COLOR;
+                  return (
+                    <div
+                      key={entry.id}
+                      className={`p-2 mb-2 cursor-grab rounded-lg shadow-sm bg-white border-l-4 ${color.border} hover:shadow-md transition-shadow duration-200`}
+                      onDragStart={(event) => onCatalogueDragStart(event, entry)}
+                      draggable
+                    >
+                      <div className="flex items-center space-x-2">
+                        {Icon && <Icon className={`w-4 h-4 ${color.text}`} />}
+                        <span className="text-sm font-medium text-gray-800 truncate">
+                          {entry.name || <span className="italic text-gray-400">Unnamed</span>}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">On {entry.diagramNames.join(', ')}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <ValidationPanel
+              issues={issues}
+              onSelectIssue={handleSelectIssue}
+              duplicateSetCount={duplicateSetCount}
+              onMergeDuplicates={handleMergeDuplicates}
+            />
+          </aside>
+
+          {/* React Flow Canvas */}
+          {/* Added reactflow-wrapper class for drop position calculation */}
+          <div
+            className="flex-grow h-full reactflow-wrapper"
+            onMouseMove={handleCanvasMouseMove}
+            onMouseLeave={() => collaboration && moveCursor(undefined)}
           >
-            <Controls />
-            <MiniMap nodeColor={(n) => {
-              switch (n.type) {
-                case 'company': return '#10B981';
-                case 'employee': return '#3B82F6';
-                case 'supplier': return '#F97316';
-                default: return '#1E293B';
-              }
-            }} />
-            <Background color="#ccc" gap={16} />
-            {/* Edge Marker Definition (for arrows) */}
-            <svg>
-              <defs>
-                {/* Defined a marker with the ID 'arrowhead' to match the usage in FlowEdge */}
-                <marker
-                  id="arrowhead"
-                  viewBox="0 0 10 10"
-                  refX="10"
-                  refY="5"
-                  markerWidth="8"
-                  markerHeight="8"
-                  orient="auto-start-reverse"
-                >
-                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#6B7280" />
-                </marker>
-              </defs>
-            </svg>
-          </ReactFlow>
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              onConnect={onConnect}
+              connectionMode={ConnectionMode.Loose}
+              deleteKeyCode={isActive ? 'Backspace' : null}
+              onNodeMouseEnter={handleNodeMouseEnter}
+              onNodeMouseLeave={clearHovered}
+              onEdgeMouseEnter={handleEdgeMouseEnter}
+              onEdgeMouseLeave={clearHovered}
+              onDragOver={onDragOver}
+              onDrop={onDrop}
+              nodeTypes={nodeTypes}
+              edgeTypes={edgeTypes}
+              onlyRenderVisibleElements={nodes.length >= LARGE_DIAGRAM_NODES}
+              fitView
+            >
+              {selectedNodes.length > 0 && (
+                <Panel position="top-center" className="flex gap-2">
+                  <button
+                    onClick={handleDuplicateSelected}
+                    title="Duplicate the selection (Ctrl+D)"
+                    className="flex items-center px-3 py-1.5 bg-white text-indigo-600 text-sm font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+                  >
+                    <CopyPlus className="w-4 h-4 mr-2" />
+                    Duplicate
+                  </button>
+                  {selectedNodes.length > 1 && (
+                    <button
+                      onClick={handleGroupSelected}
+                      className="flex items-center px-3 py-1.5 bg-white text-indigo-600 text-sm font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+                    >
+                      <Group className="w-4 h-4 mr-2" />
+                      Group {selectedNodes.length} selected
+                    </button>
+                  )}
+                </Panel>
+              )}
+              {collaboration && <CollaboratorPresence peers={peers} nodes={nodes} />}
+              <Controls />
+              <MiniMap nodeColor={miniMapNodeColor} />
+              <Background color="#ccc" gap={16} />
+              {/* Edge Marker Definition (for arrows) */}
+              <svg>
+                <defs>
+                  {/* Defined a marker with the ID 'arrowhead' to match the usage in FlowEdge */}
+                  <marker
+                    id="arrowhead"
+                    viewBox="0 0 10 10"
+                    refX="10"
+                    refY="5"
+                    markerWidth="8"
+                    markerHeight="8"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="#6B7280" />
+                  </marker>
+                </defs>
+              </svg>
+            </ReactFlow>
+          </div>
+
+          {isGraphPreviewOpen && <GraphPreviewPane state={canvasState} hovered={hovered} onHover={setHovered} />}
+
+          {isQueryOpen && (
+            <PatternQueryPane
+              diagramId={diagramId}
+              pattern={pattern}
+              evaluation={evaluation}
+              onUseSelection={handleUseSelection}
+              onPatternChange={setPattern}
+              onSelectMatch={handleSelectMatch}
+              onClose={() => setIsQueryOpen(false)}
+            />
+          )}
+
+          {/* Inspector for the selected entity or connector */}
+          {inspectedNode && <EntityInspector key={inspectedNode.id} node={inspectedNode} />}
+          {inspectedEdge && (
+            <RelationshipInspector key={inspectedEdge.id} edge={inspectedEdge} nodes={nodes} />
+          )}
         </div>
+        {review && (
+          <SyncReviewDialog
+            before={review.before}
+            after={review.after}
+            onConfirm={handleConfirmSave}
+            onClose={() => setReview(null)}
+          />
+        )}
+        {isImportDialogOpen && (
+          <ImportDiagramDialog onImport={handleImportJson} onClose={() => setIsImportDialogOpen(false)} />
+        )}
+        {isBulkImportOpen && (
+          <BulkImportDialog state={canvasState} onImport={handleBulkImport} onClose={() => setIsBulkImportOpen(false)} />
+        )}
+        {isCollaborationOpen && (
+          <CollaborationDialog
+            session={collaboration}
+            status={collaborationStatus}
+            peers={peers}
+            defaultRoomId={diagramId}
+            onJoin={(session) => {
+              setCollaboration(session);
+              setIsCollaborationOpen(false);
+            }}
+            onLeave={() => setCollaboration(null)}
+            onClose={() => setIsCollaborationOpen(false)}
+          />
+        )}
+        {isLoadDialogOpen && (
+          <LoadDiagramDialog
+            repository={repository}
+            onLoad={handleLoad}
+            onOpenGraph={handleOpenGraph}
+            onError={handleRepositoryError}
+            onClose={() => setIsLoadDialogOpen(false)}
+          />
+        )}
+        <Modal />
+        {cypherScript !== null && <CypherExportDialog script={cypherScript} onClose={() => setCypherScript(null)} />}
       </div>
-      <Modal />
-    </div>
+    </CanvasContexts>
   );
 };
 
-// Main App component to include ReactFlowProvider
-const NewBusinessModelCanvas: React.FC = () => (
+interface NewBusinessModelCanvasProps {
+  repository?: CanvasRepository;
+  autosave?: AutosaveStore;
+  isActive?: boolean;
+  catalogue?: CatalogueEntry[];
+  sharedEntities?: ReadonlyMap<string, SharedEntityData>;
+  onStateChange?: (diagram: Omit<WorkspaceDiagram, 'id'>) => void;
+  // Diagram the canvas opens with instead of an empty one, e.g. a generated benchmark diagram
+  initialDiagram?: Omit<WorkspaceDiagram, 'id'>;
+}
+
+// Main App component to include ReactFlowProvider; each canvas of a workspace has its own
+const NewBusinessModelCanvas: React.FC<NewBusinessModelCanvasProps> = ({
+  repository = defaultRepository,
+  autosave = defaultAutosave,
+  isActive = true,
+  catalogue = NO_CATALOGUE,
+  sharedEntities,
+  onStateChange,
+  initialDiagram,
+}) => (
   <ReactFlowProvider>
-    <div style={{ width: '100%', height: '100vh' }}>
-      <FlowWrapper />
+    <div style={{ width: '100%', height: '100%' }}>
+      <FlowWrapper
+        repository={repository}
+        autosave={autosave}
+        isActive={isActive}
+        catalogue={catalogue}
+        sharedEntities={sharedEntities}
+        onStateChange={onStateChange}
+        initialDiagram={initialDiagram}
+      />
     </div>
   </ReactFlowProvider>
 );
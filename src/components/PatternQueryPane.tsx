@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Plus, Search, Trash2, X } from 'lucide-react';
+import {
+  OPERATOR_LABELS,
+  filterableProperties,
+  invalidFilters,
+  operatorsFor,
+  toMatchQuery,
+  type FilterOperator,
+  type GraphPattern,
+  type PatternEvaluation,
+  type PatternFilter,
+  type PatternMatch,
+  type PatternNode,
+} from '../graph/patternQuery';
+import { toCypherLiteral } from '../graph/cypherGenerator';
+
+interface PatternQueryPaneProps {
+  diagramId: string;
+  pattern: GraphPattern | null;
+  evaluation: PatternEvaluation | null;
+  onUseSelection: () => void;
+  onPatternChange: (pattern: GraphPattern) => void;
+  onSelectMatch: (match: PatternMatch) => void;
+  onClose: () => void;
+}
+
+/**
+ * Query mode: turns a selection on the canvas into a pattern, lets the user filter it on names and
+ * properties, and shows both the Cypher MATCH query and the matches found in the current model.
+ */
+const PatternQueryPane: React.FC<PatternQueryPaneProps> = ({
+  diagramId,
+  pattern,
+  evaluation,
+  onUseSelection,
+  onPatternChange,
+  onSelectMatch,
+  onClose,
+}) => {
+  const [copyStatus, setCopyStatus] = useState('');
+
+  const invalid = useMemo(() => (pattern ? invalidFilters(pattern) : new Map<string, string>()), [pattern]);
+  const script = useMemo(() => {
+    if (!pattern) {
+      return '';
+    }
+    const { query, params } = toMatchQuery(pattern, diagramId);
+    const paramLines = Object.entries(params).map(([name, value]) => `:param ${name} => ${toCypherLiteral(value)}`);
+    return [...paramLines, `${query};`].join('\n');
+  }, [pattern, diagramId]);
+
+  const updateFilters = (variable: string, update: (filters: PatternFilter[]) => PatternFilter[]) => {
+    if (pattern) {
+      onPatternChange({
+        ...pattern,
+        nodes: pattern.nodes.map((node) => (node.variable === variable ? { ...node, filters: update(node.filters) } : node)),
+      });
+    }
+  };
+
+  const addFilter = (node: PatternNode) =>
+    updateFilters(node.variable, (filters) => [
+      ...filters,
+      { id: crypto.randomUUID(), property: 'name', operator: 'equals', value: '' },
+    ]);
+
+  const changeFilter = (variable: string, id: string, patch: Partial<PatternFilter>) =>
+    updateFilters(variable, (filters) =>
+      filters.map((filter) => {
+        if (filter.id !== id) {
+          return filter;
+        }
+        const changed = { ...filter, ...patch };
+        // Switching property resets the operator when the new property cannot use it
+        const node = pattern?.nodes.find((candidate) => candidate.variable === variable);
+        const definition = node && filterableProperties(node.type).find((property) => property.key === changed.property);
+        return definition && !operatorsFor(definition).includes(changed.operator) ? { ...changed, operator: 'equals' } : changed;
+      })
+    );
+
+  const removeFilter = (variable: string, id: string) =>
+    updateFilters(variable, (filters) => filters.filter((filter) => filter.id !== id));
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script);
+      setCopyStatus('Copied to clipboard.');
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      setCopyStatus('Failed to copy. Select the query and copy it manually.');
+    }
+  };
+
+  const describeMatch = (match: PatternMatch): string =>
+    (pattern?.nodes ?? []).map((node) => match.nodes[node.variable]?.name || '(unnamed)').join(' · ');
+
+  return (
+    <aside className="w-96 flex flex-col bg-white border-l border-gray-200 flex-shrink-0 overflow-y-auto">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <Search className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-700">Pattern Query</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close query mode">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div>
+          <p className="text-xs text-gray-500 mb-2">
+            Select the entities and connectors to look for on the canvas, then use them as the pattern.
+          </p>
+          <button
+            onClick={onUseSelection}
+            className="w-full px-3 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150"
+          >
+            Use Selection as Pattern
+          </button>
+        </div>
+
+        {pattern && (
+          <>
+            <div className="space-y-3">
+              {pattern.nodes.map((node) => (
+                <div key={node.variable} className="p-3 rounded-lg bg-gray-50 ring-1 ring-gray-200">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-semibold text-gray-700">
+                      ({node.variable}:{node.label})
+                    </span>
+                    <button
+                      onClick={() => addFilter(node)}
+                      className="flex items-center text-xs text-indigo-600 hover:text-indigo-800"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      Filter
+                    </button>
+                  </div>
+                  {node.filters.length === 0 && <p className="text-xs text-gray-400">Any {node.label.toLowerCase()}.</p>}
+                  {node.filters.map((filter) => {
+                    const properties = filterableProperties(node.type);
+                    const definition = properties.find((property) => property.key === filter.property) ?? properties[0];
+                    return (
+                      <div key={filter.id} className="mb-2">
+                        <div className="flex items-center space-x-1">
+                          <select
+                            value={filter.property}
+                            onChange={(e) => changeFilter(node.variable, filter.id, { property: e.target.value })}
+                            className="text-xs border border-gray-300 rounded px-1 py-1"
+                          >
+                            {properties.map((property) => (
+                              <option key={property.key} value={property.key}>
+                                {property.label}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={filter.operator}
+                            onChange={(e) => changeFilter(node.variable, filter.id, { operator: e.target.value as FilterOperator })}
+                            className="text-xs border border-gray-300 rounded px-1 py-1"
+                          >
+                            {operatorsFor(definition).map((operator) => (
+                              <option key={operator} value={operator}>
+                                {OPERATOR_LABELS[operator]}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={filter.value}
+                            onChange={(e) => changeFilter(node.variable, filter.id, { value: e.target.value })}
+                            placeholder={definition.type === 'date' ? 'YYYY-MM-DD' : 'Value'}
+                            className="flex-grow min-w-0 text-xs border border-gray-300 rounded px-2 py-1"
+                          />
+                          <button
+                            onClick={() => removeFilter(node.variable, filter.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove filter"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {invalid.has(filter.id) && <p className="text-xs text-red-600 mt-1">{invalid.get(filter.id)}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+              {pattern.relationships.map((relationship) => (
+                <p key={relationship.variable} className="text-xs text-gray-600">
+                  ({relationship.start})-[{relationship.variable}:{relationship.type}]-&gt;({relationship.end})
+                </p>
+              ))}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-semibold text-gray-700">Cypher</p>
+                <button onClick={handleCopy} className="flex items-center text-xs text-indigo-600 hover:text-indigo-800">
+                  <Copy className="w-3 h-3 mr-1" />
+                  Copy
+                </button>
+              </div>
+              <pre className="bg-gray-900 text-gray-100 text-xs p-3 rounded-lg overflow-auto whitespace-pre-wrap">{script}</pre>
+              {copyStatus && <p className="text-xs text-gray-500 mt-1">{copyStatus}</p>}
+            </div>
+
+            {evaluation && (
+              <div>
+                <p className="text-sm font-semibold text-gray-700 mb-1">
+                  {evaluation.matches.length} {evaluation.matches.length === 1 ? 'match' : 'matches'}
+                  {evaluation.truncated && ` (first ${evaluation.matches.length} shown)`}
+                </p>
+                {evaluation.matches.length === 0 ? (
+                  <p className="text-xs text-gray-500">Nothing in the current model matches the pattern.</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {evaluation.matches.map((match, index) => (
+                      <li key={index}>
+                        <button
+                          onClick={() => onSelectMatch(match)}
+                          className="w-full text-left text-xs p-2 rounded-md text-gray-700 hover:bg-fuchsia-50 transition duration-150"
+                        >
+                          {describeMatch(match)}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default PatternQueryPane;
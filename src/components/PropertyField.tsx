@@ -0,0 +1,44 @@
+import React from 'react';
+import type { EntityPropertyDefinition } from '../models/entityRegistry';
+
+export const inputClassName = 'w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-300';
+
+interface PropertyFieldProps {
+  definition: EntityPropertyDefinition;
+  value: string;
+  error?: string;
+  onChange: (raw: string) => void;
+}
+
+/**
+ * Form field for one typed property, rendered according to its definition.
+ */
+const PropertyField: React.FC<PropertyFieldProps> = ({ definition, value, error, onChange }) => (
+  <label className="block mb-3">
+    <span className="text-xs font-semibold text-gray-600">
+      {definition.label}
+      {definition.required && <span className="text-red-500"> *</span>}
+    </span>
+    {definition.type === 'enum' ? (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClassName} bg-white`}>
+        <option value="">—</option>
+        {definition.options?.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <input
+        type={definition.type === 'date' ? 'date' : 'text'}
+        inputMode={definition.type === 'number' ? 'decimal' : undefined}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClassName} ${error ? 'border-red-400' : 'border-gray-300'}`}
+      />
+    )}
+    {error && <span className="text-xs text-red-600">{error}</span>}
+  </label>
+);
+
+export default PropertyField;
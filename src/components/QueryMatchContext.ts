@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { PatternMatch } from '../graph/patternQuery';
+import { ValueStore, useValueStore } from '../store/ValueStore';
+
+/**
+ * Canvas elements that take part in a pattern query match, so they can highlight themselves.
+ * Provided as a store, so an element only re-renders when it starts or stops matching.
+ */
+export interface QueryMatchHighlights {
+  nodes: ReadonlySet<string>;
+  edges: ReadonlySet<string>;
+}
+
+export const QueryMatchContext = createContext(new ValueStore<QueryMatchHighlights>({ nodes: new Set(), edges: new Set() }));
+
+// Graph elements map back to canvas elements, so a group node is highlighted when any member matches
+export const highlightsForMatches = (matches: PatternMatch[]): QueryMatchHighlights => ({
+  nodes: new Set(matches.flatMap((match) => Object.values(match.nodes).map((node) => node.canvasId))),
+  edges: new Set(matches.flatMap((match) => Object.values(match.relationships).map((relationship) => relationship.canvasId))),
+});
+
+export const useIsQueryMatch = (kind: 'node' | 'edge', id: string): boolean =>
+  useValueStore(useContext(QueryMatchContext), (highlights) => (kind === 'node' ? highlights.nodes : highlights.edges).has(id));
@@ -0,0 +1,137 @@
+import React from 'react';
+import { ArrowLeftRight, GitBranch, RotateCcw } from 'lucide-react';
+import type { EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import { getRelationshipDefinition, type EntityPropertyDefinition } from '../models/entityRegistry';
+import { formatPropertyValue, pickRelationshipProperties } from '../models/entityProperties';
+import {
+  allowedRelationships,
+  canBeBidirectional,
+  inferEdgeRelationship,
+  resolveEdgeRelationship,
+} from '../graph/relationshipInference';
+import { useCanvasActions } from './CanvasActionsContext';
+import PropertyField, { inputClassName } from './PropertyField';
+import { usePropertyDrafts } from './usePropertyDrafts';
+
+interface RelationshipInspectorProps {
+  edge: RelationshipEdge;
+  nodes: EntityNode[];
+}
+
+/**
+ * Side panel for the selected connector: lets the user override the inferred relationship type
+ * with another allowed one, reverse or make the relationship bidirectional, and edit its typed
+ * properties.
+ */
+const RelationshipInspector: React.FC<RelationshipInspectorProps> = ({ edge, nodes }) => {
+  const { updateEdgeData, reverseEdge } = useCanvasActions();
+  const { drafts, applyChange } = usePropertyDrafts();
+
+  const source = nodes.find((node) => node.id === edge.source);
+  const target = nodes.find((node) => node.id === edge.target);
+  const relationship = resolveEdgeRelationship(edge, nodes);
+  const inference = inferEdgeRelationship(edge, nodes);
+  const options = source?.type && target?.type ? allowedRelationships(source.type, target.type) : [];
+  const definition = getRelationshipDefinition(relationship?.relationshipType);
+  const bidirectionalAllowed = (relationshipType: string | undefined) =>
+    !!source?.type && !!target?.type && !!relationshipType && canBeBidirectional(source.type, target.type, relationshipType);
+
+  const handleTypeChange = (relationshipType: string) => {
+    const rule = options.find((option) => option.relationshipType === relationshipType);
+    if (!rule) {
+      return;
+    }
+    const overridden = !inference.ok || inference.rule.relationshipType !== relationshipType;
+    updateEdgeData(edge.id, {
+      ...rule,
+      overridden,
+      bidirectional: relationship?.bidirectional && bidirectionalAllowed(relationshipType) ? true : undefined,
+      // Only keep the properties the new relationship type declares
+      properties: pickRelationshipProperties(relationshipType, relationship?.properties),
+    });
+  };
+
+  const handleResetToInferred = () => {
+    if (inference.ok) {
+      handleTypeChange(inference.rule.relationshipType);
+    }
+  };
+
+  const handleBidirectionalChange = (bidirectional: boolean) => {
+    if (relationship) {
+      updateEdgeData(edge.id, { ...relationship, bidirectional: bidirectional || undefined });
+    }
+  };
+
+  const handlePropertyChange = (property: EntityPropertyDefinition, raw: string) => {
+    const properties = applyChange(property, raw, relationship?.properties);
+    if (properties && relationship) {
+      updateEdgeData(edge.id, { ...relationship, properties });
+    }
+  };
+
+  return (
+    <aside className="w-72 p-4 bg-white border-l border-gray-200 flex-shrink-0 overflow-y-auto">
+      <div className="flex items-center space-x-2 mb-4">
+        <GitBranch className="w-5 h-5 text-indigo-600" />
+        <h2 className="text-lg font-semibold text-gray-700">Relationship</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        {source?.data.name ?? 'Unknown'} {relationship?.bidirectional ? '↔' : '→'} {target?.data.name ?? 'Unknown'}
+      </p>
+      <label className="block mb-3">
+        <span className="text-xs font-semibold text-gray-600">Type</span>
+        <select
+          value={relationship?.relationshipType ?? ''}
+          onChange={(e) => handleTypeChange(e.target.value)}
+          className={`${inputClassName} border-gray-300 bg-white`}
+        >
+          {options.map((option) => (
+            <option key={option.relationshipType} value={option.relationshipType}>
+              {getRelationshipDefinition(option.relationshipType)?.label ?? option.relationshipType}
+              {inference.ok && inference.rule.relationshipType === option.relationshipType ? ' (inferred)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      {relationship?.overridden && inference.ok && (
+        <button
+          onClick={handleResetToInferred}
+          className="flex items-center mb-4 text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Reset to inferred ({inference.rule.relationshipType})
+        </button>
+      )}
+      <button
+        onClick={() => reverseEdge(edge.id)}
+        className="flex items-center mb-3 text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        <ArrowLeftRight className="w-4 h-4 mr-1" />
+        Reverse direction
+      </button>
+      {bidirectionalAllowed(relationship?.relationshipType) && (
+        <label className="flex items-center mb-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={relationship?.bidirectional ?? false}
+            onChange={(e) => handleBidirectionalChange(e.target.checked)}
+            className="mr-2"
+          />
+          Bidirectional (a {relationship?.relationshipType} relationship each way)
+        </label>
+      )}
+      {definition?.properties.map((property) => (
+        <PropertyField
+          key={property.key}
+          definition={property}
+          value={drafts[property.key]?.raw ?? formatPropertyValue(relationship?.properties?.[property.key])}
+          error={drafts[property.key]?.error}
+          onChange={(raw) => handlePropertyChange(property, raw)}
+        />
+      ))}
+    </aside>
+  );
+};
+
+export default RelationshipInspector;
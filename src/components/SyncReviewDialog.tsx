@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Save, X } from 'lucide-react';
+import type { CanvasState, EntityNode } from '../models/CanvasModels';
+import { diffCanvas, isGraphUnchanged, type GraphRelationship } from '../graph/canvasDiff';
+import { toGraphCanvas } from '../graph/entityAliases';
+import { planSync } from '../graph/syncPlanner';
+import { toCypherScript } from '../graph/cypherGenerator';
+
+interface SyncReviewDialogProps {
+  before: CanvasState;
+  after: CanvasState;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+interface DiffSection {
+  title: string;
+  className: string;
+  items: string[];
+}
+
+const describeNode = (node: EntityNode): string => `${node.data.label} "${node.data.name}"`;
+
+/**
+ * Shows what changed since the last save, and the Cypher that applies just those changes to the
+ * graph, before the diagram is saved.
+ */
+const SyncReviewDialog: React.FC<SyncReviewDialogProps> = ({ before, after, onConfirm, onClose }) => {
+  const [copyStatus, setCopyStatus] = useState('');
+
+  const { sections, script, unchanged } = useMemo(() => {
+    const diff = diffCanvas(before, after);
+    // Relationships are described by the names of their end nodes, which may only exist in one snapshot
+    const names = new Map(
+      [...toGraphCanvas(before).nodes, ...toGraphCanvas(after).nodes].map((node) => [node.id, node.data.name])
+    );
+    const describeRelationship = ({ type, start, end }: GraphRelationship) =>
+      `"${names.get(start) ?? start}" -[${type}]-> "${names.get(end) ?? end}"`;
+
+    const diffSections: DiffSection[] = [
+      { title: 'Added entities', className: 'text-emerald-700', items: diff.addedNodes.map(describeNode) },
+      { title: 'Removed entities', className: 'text-red-700', items: diff.removedNodes.map(describeNode) },
+      {
+        title: 'Renamed entities',
+        className: 'text-indigo-700',
+        items: diff.renamedNodes.map(({ before: old, after: renamed }) => `"${old.data.name}" → "${renamed.data.name}"`),
+      },
+      {
+        title: 'Retyped entities',
+        className: 'text-indigo-700',
+        items: diff.retypedNodes.map(({ before: old, after: retyped }) => `"${retyped.data.name}": ${old.data.label} → ${retyped.data.label}`),
+      },
+      { title: 'Updated properties', className: 'text-indigo-700', items: diff.updatedNodes.map(({ after: node }) => describeNode(node)) },
+      { title: 'Moved entities (layout only)', className: 'text-gray-600', items: diff.movedNodes.map(({ after: node }) => describeNode(node)) },
+      { title: 'Added relationships', className: 'text-emerald-700', items: diff.addedRelationships.map(describeRelationship) },
+      { title: 'Removed relationships', className: 'text-red-700', items: diff.removedRelationships.map(describeRelationship) },
+      {
+        title: 'Changed relationships',
+        className: 'text-indigo-700',
+        items: [
+          ...diff.retypedRelationships.map(({ before: old, after: changed }) => `${describeRelationship(old)} → ${describeRelationship(changed)}`),
+          ...diff.updatedRelationships.map(({ after: changed }) => `${describeRelationship(changed)} (properties)`),
+        ],
+      },
+    ];
+    return {
+      sections: diffSections.filter((section) => section.items.length > 0),
+      script: toCypherScript(planSync(diff, after)),
+      unchanged: isGraphUnchanged(diff),
+    };
+  }, [before, after]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script);
+      setCopyStatus('Copied to clipboard.');
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      setCopyStatus('Failed to copy. Select the script and copy it manually.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white p-6 rounded-lg shadow-2xl max-w-3xl w-full">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Review Changes</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="max-h-64 overflow-y-auto mb-4 space-y-3">
+          {sections.length === 0 && <p className="text-sm text-gray-500">Nothing has changed since the last save.</p>}
+          {sections.map((section) => (
+            <div key={section.title}>
+              <p className="text-sm font-semibold text-gray-700">
+                {section.title} ({section.items.length})
+              </p>
+              <ul className={`text-xs ml-4 list-disc ${section.className}`}>
+                {section.items.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+        {!unchanged && (
+          <>
+            <p className="text-sm text-gray-500 mb-2">Cypher that applies these changes to the graph:</p>
+            <pre className="bg-gray-900 text-gray-100 text-xs p-4 rounded-lg max-h-64 overflow-auto whitespace-pre-wrap">{script}</pre>
+          </>
+        )}
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          {copyStatus && <span className="text-sm text-gray-500">{copyStatus}</span>}
+          {!unchanged && (
+            <button
+              onClick={handleCopy}
+              className="flex items-center px-4 py-2 bg-white text-indigo-600 font-semibold rounded-lg shadow-md ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy Cypher
+            </button>
+          )}
+          <button
+            onClick={onConfirm}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition duration-150"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Diagram
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncReviewDialog;
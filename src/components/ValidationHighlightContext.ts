@@ -0,0 +1,36 @@
+import { createContext, useContext } from 'react';
+import type { ValidationIssue, ValidationSeverity } from '../graph/modelValidation';
+import { ValueStore, useValueStore } from '../store/ValueStore';
+
+/**
+ * The most severe validation issue for each node and edge, so canvas elements can highlight themselves.
+ * Provided as a store, so an element only re-renders when its own severity changes.
+ */
+export interface ValidationHighlights {
+  nodes: ReadonlyMap<string, ValidationSeverity>;
+  edges: ReadonlyMap<string, ValidationSeverity>;
+}
+
+export const ValidationHighlightContext = createContext(new ValueStore<ValidationHighlights>({ nodes: new Map(), edges: new Map() }));
+
+const addHighlight = (highlights: Map<string, ValidationSeverity>, id: string, severity: ValidationSeverity) => {
+  if (highlights.get(id) !== 'error') {
+    highlights.set(id, severity);
+  }
+};
+
+export const highlightsForIssues = (issues: ValidationIssue[]): ValidationHighlights => {
+  const nodes = new Map<string, ValidationSeverity>();
+  const edges = new Map<string, ValidationSeverity>();
+  issues.forEach((issue) => {
+    issue.nodeIds.forEach((id) => addHighlight(nodes, id, issue.severity));
+    issue.edgeIds.forEach((id) => addHighlight(edges, id, issue.severity));
+  });
+  return { nodes, edges };
+};
+
+export const useNodeValidation = (id: string): ValidationSeverity | undefined =>
+  useValueStore(useContext(ValidationHighlightContext), (highlights) => highlights.nodes.get(id));
+
+export const useEdgeValidation = (id: string): ValidationSeverity | undefined =>
+  useValueStore(useContext(ValidationHighlightContext), (highlights) => highlights.edges.get(id));
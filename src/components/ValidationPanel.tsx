@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Merge, XCircle } from 'lucide-react';
+import { countBySeverity, type ValidationIssue } from '../graph/modelValidation';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  onSelectIssue: (issue: ValidationIssue) => void;
+  // Sets of same-type, same-name entities that can be merged into one
+  duplicateSetCount: number;
+  onMergeDuplicates: () => void;
+}
+
+/**
+ * Lists the live validation issues for the canvas. Clicking an issue focuses the entities
+ * and connectors it refers to. Duplicate entities can be merged from here.
+ */
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, onSelectIssue, duplicateSetCount, onMergeDuplicates }) => {
+  const errorCount = countBySeverity(issues, 'error');
+  const warningCount = countBySeverity(issues, 'warning');
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-700">Validation</h2>
+        <span className="text-xs text-gray-500">
+          {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+        </span>
+      </div>
+      {duplicateSetCount > 0 && (
+        <button
+          onClick={onMergeDuplicates}
+          className="w-full flex items-center justify-center mb-2 px-3 py-1.5 bg-white text-indigo-600 text-sm font-semibold rounded-lg shadow-sm ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150"
+        >
+          <Merge className="w-4 h-4 mr-2" />
+          Merge duplicates ({duplicateSetCount})
+        </button>
+      )}
+      {issues.length === 0 ? (
+        <p className="flex items-center text-sm text-emerald-600">
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          No problems found.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {issues.map((issue) => (
+            <li key={issue.id}>
+              <button
+                onClick={() => onSelectIssue(issue)}
+                className="w-full flex items-start text-left text-xs p-2 rounded-md hover:bg-white hover:shadow-sm transition duration-150"
+              >
+                {issue.severity === 'error' ? (
+                  <XCircle className="w-4 h-4 mr-2 flex-shrink-0 text-red-500" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0 text-amber-500" />
+                )}
+                <span className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
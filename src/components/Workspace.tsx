@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Database, Plus, X } from 'lucide-react';
+import { generateBenchmarkDiagram, parseBenchmarkQuery } from '../graph/benchmarkDiagram';
+import { generateCypher, toCypherScript } from '../graph/cypherGenerator';
+import {
+  buildCatalogue,
+  sharedEntityEdits,
+  unionDiagrams,
+  type CatalogueEntry,
+  type SharedEntityData,
+  type WorkspaceDiagram,
+} from '../graph/workspaceUnion';
+import { AutosaveStore } from '../persistence/AutosaveStore';
+import type { CanvasRepository } from '../persistence/CanvasRepository';
+import type { DocumentStore } from '../persistence/documentStore/DocumentStore';
+import { createCanvasRepository, createDocumentStore } from '../persistence/createCanvasRepository';
+import { DEFAULT_WORKSPACE_LAYOUT, WorkspaceStore, type WorkspaceLayout } from '../persistence/WorkspaceStore';
+import CypherExportDialog from './CypherExportDialog';
+import NewBusinessModelCanvas from './NewBusinessModelCanvas';
+
+// Persistence used when none is passed in (Neo4j when configured, the document store otherwise)
+const defaultDocumentStore = createDocumentStore();
+const defaultRepository = createCanvasRepository(defaultDocumentStore);
+
+const UNTITLED = 'Untitled Diagram';
+
+interface WorkspaceState {
+  // Latest state reported by each tab, by tab id
+  diagrams: Record<string, WorkspaceDiagram>;
+  sharedEntities: ReadonlyMap<string, SharedEntityData>;
+}
+
+interface WorkspaceCanvasProps {
+  tabId: string;
+  isActive: boolean;
+  repository: CanvasRepository;
+  documentStore?: DocumentStore;
+  catalogue: CatalogueEntry[];
+  sharedEntities: ReadonlyMap<string, SharedEntityData>;
+  onStateChange: (tabId: string, diagram: Omit<WorkspaceDiagram, 'id'>) => void;
+  initialDiagram?: Omit<WorkspaceDiagram, 'id'>;
+}
+
+// One tab's canvas. Inactive tabs stay mounted, so their canvas and undo history survive switching.
+const WorkspaceCanvas: React.FC<WorkspaceCanvasProps> = ({
+  tabId,
+  isActive,
+  repository,
+  documentStore,
+  catalogue,
+  sharedEntities,
+  onStateChange,
+  initialDiagram,
+}) => {
+  const autosave = useMemo(() => documentStore && new AutosaveStore(documentStore, tabId), [documentStore, tabId]);
+  const handleStateChange = useCallback(
+    (diagram: Omit<WorkspaceDiagram, 'id'>) => onStateChange(tabId, diagram),
+    [onStateChange, tabId]
+  );
+  return (
+    <div className={`flex-grow min-h-0 ${isActive ? '' : 'hidden'}`}>
+      <NewBusinessModelCanvas
+        repository={repository}
+        autosave={autosave}
+        isActive={isActive}
+        catalogue={catalogue}
+        sharedEntities={sharedEntities}
+        onStateChange={handleStateChange}
+        initialDiagram={initialDiagram}
+      />
+    </div>
+  );
+};
+
+interface WorkspaceProps {
+  repository?: CanvasRepository;
+  documentStore?: DocumentStore;
+}
+
+/**
+ * Several diagrams in tabs, sharing a catalogue of entities. An entity dragged from the catalogue
+ * onto another diagram is the same entity: edits to its name and properties reach every diagram,
+ * and the workspace Cypher export unions all diagrams into one graph.
+ */
+const Workspace: React.FC<WorkspaceProps> = ({ repository = defaultRepository, documentStore = defaultDocumentStore }) => {
+  const workspaceStore = useMemo(() => documentStore && new WorkspaceStore(documentStore), [documentStore]);
+  // `?benchmark` opens a generated large diagram in a new tab, for measuring the canvas
+  const [benchmark] = useState(() => {
+    const options = parseBenchmarkQuery(window.location.search);
+    return (
+      options && {
+        tabId: crypto.randomUUID(),
+        diagram: { name: `Benchmark ${options.nodeCount}×${options.edgeCount}`, state: generateBenchmarkDiagram(options) },
+      }
+    );
+  });
+  const withBenchmarkTab = useCallback(
+    (layout: WorkspaceLayout): WorkspaceLayout =>
+      benchmark ? { tabIds: [...layout.tabIds, benchmark.tabId], activeTabId: benchmark.tabId } : layout,
+    [benchmark]
+  );
+  // Tabs are shown once the diagrams open in the previous session are known
+  const [layout, setLayout] = useState<WorkspaceLayout | null>(() =>
+    workspaceStore ? null : withBenchmarkTab(DEFAULT_WORKSPACE_LAYOUT)
+  );
+  const [workspace, setWorkspace] = useState<WorkspaceState>({ diagrams: {}, sharedEntities: new Map() });
+  const [unionExport, setUnionExport] = useState<{ script: string; notes: string[] } | null>(null);
+
+  useEffect(() => {
+    if (!workspaceStore) {
+      return;
+    }
+    workspaceStore
+      .read()
+      .catch((err) => {
+        console.error('Failed to read the workspace:', err);
+        return DEFAULT_WORKSPACE_LAYOUT;
+      })
+      .then((layout) => setLayout(withBenchmarkTab(layout)));
+  }, [workspaceStore, withBenchmarkTab]);
+
+  // The benchmark tab is kept like any other, so reloading the page must not open another one
+  useEffect(() => {
+    if (benchmark) {
+      const url = new URL(window.location.href);
+      url.searchParams.delete('benchmark');
+      url.searchParams.delete('seed');
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [benchmark]);
+
+  useEffect(() => {
+    if (layout && workspaceStore) {
+      workspaceStore.write(layout).catch((err) => console.error('Failed to save the workspace:', err));
+    }
+  }, [layout, workspaceStore]);
+
+  // Record a tab's latest state; shared entities it changed are passed on to the other tabs
+  const handleStateChange = useCallback((tabId: string, diagram: Omit<WorkspaceDiagram, 'id'>) => {
+    setWorkspace((current) => {
+      const changed = { id: tabId, ...diagram };
+      const others = Object.values(current.diagrams).filter((other) => other.id !== tabId);
+      const edits = sharedEntityEdits(others, changed);
+      return {
+        diagrams: { ...current.diagrams, [tabId]: changed },
+        sharedEntities: edits.size > 0 ? new Map([...current.sharedEntities, ...edits]) : current.sharedEntities,
+      };
+    });
+  }, []);
+
+  // Diagrams in tab order
+  const diagrams = useMemo(
+    () => (layout?.tabIds ?? []).flatMap((id) => (workspace.diagrams[id] ? [workspace.diagrams[id]] : [])),
+    [layout, workspace.diagrams]
+  );
+  const catalogue = useMemo(() => buildCatalogue(diagrams), [diagrams]);
+
+  const handleNewTab = () => {
+    const id = crypto.randomUUID();
+    setLayout((current) => current && { tabIds: [...current.tabIds, id], activeTabId: id });
+  };
+
+  const handleCloseTab = (tabId: string) => {
+    const name = workspace.diagrams[tabId]?.name ?? UNTITLED;
+    if (!window.confirm(`Close the diagram "${name}"? Changes that were not saved are lost.`)) {
+      return;
+    }
+    setLayout((current) => {
+      if (!current) {
+        return current;
+      }
+      const index = current.tabIds.indexOf(tabId);
+      const tabIds = current.tabIds.filter((id) => id !== tabId);
+      const activeTabId = current.activeTabId === tabId ? tabIds[Math.max(0, index - 1)] : current.activeTabId;
+      return { tabIds, activeTabId };
+    });
+    setWorkspace((current) => ({
+      ...current,
+      diagrams: Object.fromEntries(Object.entries(current.diagrams).filter(([id]) => id !== tabId)),
+    }));
+    if (documentStore) {
+      new AutosaveStore(documentStore, tabId).clear().catch((err) => console.error('Failed to clear autosave:', err));
+    }
+  };
+
+  // One Cypher script for the graph of all diagrams together
+  const handleExportUnion = () => {
+    const { state, conflicts } = unionDiagrams(diagrams);
+    setUnionExport({ script: toCypherScript(generateCypher(state)), notes: conflicts });
+  };
+
+  if (!layout) {
+    return null;
+  }
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-gray-50 font-inter">
+      {/* Diagram tabs */}
+      <div className="flex items-end justify-between px-2 pt-2 bg-gray-100 border-b border-gray-200 flex-shrink-0">
+        <div className="flex items-end space-x-1 overflow-x-auto">
+          {layout.tabIds.map((id) => (
+            <div
+              key={id}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-t-lg ${id === layout.activeTabId ? 'bg-white text-indigo-700 font-semibold ring-1 ring-gray-200' : 'text-gray-600 hover:bg-gray-200'}`}
+            >
+              <button onClick={() => setLayout({ ...layout, activeTabId: id })} className="max-w-48 truncate">
+                {workspace.diagrams[id]?.name || UNTITLED}
+              </button>
+              {layout.tabIds.length > 1 && (
+                <button onClick={() => handleCloseTab(id)} className="ml-2 text-gray-400 hover:text-gray-600" title="Close diagram">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button onClick={handleNewTab} className="p-1.5 mb-0.5 text-gray-500 hover:text-indigo-600" title="New diagram">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <button
+          onClick={handleExportUnion}
+          disabled={diagrams.every((diagram) => diagram.state.nodes.length === 0)}
+          title="Cypher for the graph of all open diagrams together"
+          className="flex items-center mb-1.5 px-3 py-1 bg-white text-indigo-600 text-sm font-semibold rounded-lg ring-1 ring-indigo-200 hover:bg-indigo-50 transition duration-150 disabled:opacity-40 disabled:hover:bg-white"
+        >
+          <Database className="w-4 h-4 mr-2" />
+          Workspace Cypher
+        </button>
+      </div>
+
+      {layout.tabIds.map((id) => (
+        <WorkspaceCanvas
+          key={id}
+          tabId={id}
+          isActive={id === layout.activeTabId}
+          repository={repository}
+          documentStore={documentStore}
+          catalogue={catalogue}
+          sharedEntities={workspace.sharedEntities}
+          onStateChange={handleStateChange}
+          initialDiagram={id === benchmark?.tabId ? benchmark.diagram : undefined}
+        />
+      ))}
+
+      {unionExport && (
+        <CypherExportDialog script={unionExport.script} notes={unionExport.notes} onClose={() => setUnionExport(null)} />
+      )}
+    </div>
+  );
+};
+
+export default Workspace;
@@ -0,0 +1,100 @@
+import { useCallback, useEffect } from 'react';
+import type { CanvasState } from '../models/CanvasModels';
+import { copySelection, duplicateSelection, pasteElements, removeSelection } from '../graph/canvasClipboard';
+import { formatImportIssue, parseClipboardText, toClipboardText, type ImportResult } from '../persistence/canvasDocument';
+import { isEditableTarget } from './useCanvasHistory';
+
+interface CanvasClipboardOptions {
+  state: CanvasState;
+  // Applies a clipboard command to the canvas, labelled for undo
+  onChange: (label: string, state: CanvasState) => void;
+  onError: (message: string) => void;
+  // Shortcuts are only handled while enabled, e.g. for the visible one of several canvases
+  enabled?: boolean;
+}
+
+// Selected page text (outside inputs) is copied by the browser as usual
+const hasTextSelection = (): boolean => window.getSelection()?.isCollapsed === false;
+
+/**
+ * Clipboard commands for the selected entities of a canvas. Ctrl+C / Cmd+C copies them, with the
+ * connectors between them, to the system clipboard, so they can be pasted into another tab or
+ * window; Ctrl+X cuts and Ctrl+V pastes them. Ctrl+D duplicates them without the clipboard.
+ */
+export const useCanvasClipboard = ({ state, onChange, onError, enabled = true }: CanvasClipboardOptions) => {
+  const selectedIds = useCallback(() => state.nodes.filter((node) => node.selected).map((node) => node.id), [state]);
+
+  const duplicate = useCallback(() => {
+    const ids = selectedIds();
+    if (ids.length > 0) {
+      onChange('Duplicate', duplicateSelection(state, ids));
+    }
+  }, [state, selectedIds, onChange]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const copy = (event: ClipboardEvent): string[] => {
+      const ids = selectedIds();
+      if (ids.length === 0 || !event.clipboardData || isEditableTarget(event.target) || hasTextSelection()) {
+        return [];
+      }
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', toClipboardText(copySelection(state, ids)));
+      return ids;
+    };
+    const handleCopy = (event: ClipboardEvent) => {
+      copy(event);
+    };
+    const handleCut = (event: ClipboardEvent) => {
+      const ids = copy(event);
+      if (ids.length > 0) {
+        onChange('Cut', removeSelection(state, ids));
+      }
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData || isEditableTarget(event.target)) {
+        return;
+      }
+      let result: ImportResult | undefined;
+      try {
+        result = parseClipboardText(event.clipboardData.getData('text/plain'));
+      } catch (err) {
+        // Clipboard text comes from anywhere; a document the importer cannot handle must not break the canvas
+        event.preventDefault();
+        console.error('Failed to read the clipboard:', err);
+        onError(`The clipboard could not be pasted. ${err instanceof Error ? err.message : 'It does not hold a valid diagram.'}`);
+        return;
+      }
+      if (!result) {
+        return;
+      }
+      event.preventDefault();
+      if (!result.ok) {
+        onError(`The clipboard could not be pasted. ${result.errors.map(formatImportIssue).join(' ')}`);
+      } else if (result.state.nodes.length > 0) {
+        onChange('Paste', pasteElements(state, result.state));
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'd' && !isEditableTarget(event.target)) {
+        // Also keeps the browser from bookmarking the page
+        event.preventDefault();
+        duplicate();
+      }
+    };
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCut);
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled, state, selectedIds, onChange, onError, duplicate]);
+
+  return { duplicate };
+};
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  emptyHistory,
+  recordHistory,
+  redoHistory,
+  sealHistory,
+  undoHistory,
+  type HistoryState,
+} from '../utils/history';
+
+export interface CanvasSnapshot<N, E> {
+  nodes: N[];
+  edges: E[];
+}
+
+interface CanvasHistoryOptions<N, E> {
+  nodes: N[];
+  edges: E[];
+  // Puts an undone or redone snapshot back on the canvas
+  restore: (snapshot: CanvasSnapshot<N, E>) => void;
+  limit?: number;
+  // Keyboard shortcuts are only handled while enabled, e.g. for the visible one of several canvases
+  shortcutsEnabled?: boolean;
+}
+
+// Text inputs keep their native undo; canvas shortcuts only apply outside them
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Undo/redo for a React Flow canvas. Call `record` just before changing nodes or edges;
+ * every call made while handling one user event becomes a single step, and calls sharing
+ * a coalesce key (e.g. the moves of one drag) merge until `seal` is called.
+ * Ctrl+Z / Cmd+Z undoes, Ctrl+Shift+Z / Cmd+Shift+Z and Ctrl+Y redo.
+ */
+export const useCanvasHistory = <N, E>({
+  nodes,
+  edges,
+  restore,
+  limit = DEFAULT_HISTORY_LIMIT,
+  shortcutsEnabled = true,
+}: CanvasHistoryOptions<N, E>) => {
+  const [history, setHistory] = useState<HistoryState<CanvasSnapshot<N, E>>>(emptyHistory);
+  const latestRef = useRef<CanvasSnapshot<N, E>>({ nodes, edges });
+  const isBatchOpenRef = useRef(false);
+
+  useEffect(() => {
+    latestRef.current = { nodes, edges };
+  }, [nodes, edges]);
+
+  const record = useCallback((label: string, coalesceKey?: string) => {
+    if (isBatchOpenRef.current) {
+      return;
+    }
+    // Close the batch once the current event has been handled
+    isBatchOpenRef.current = true;
+    queueMicrotask(() => {
+      isBatchOpenRef.current = false;
+    });
+    const snapshot = latestRef.current;
+    setHistory((current) => recordHistory(current, { label, snapshot, coalesceKey }, limit));
+  }, [limit]);
+
+  const seal = useCallback(() => setHistory(sealHistory), []);
+
+  const reset = useCallback(() => setHistory(emptyHistory()), []);
+
+  const restoreSnapshot = useCallback((snapshot: CanvasSnapshot<N, E>) => {
+    latestRef.current = snapshot;
+    restore(snapshot);
+  }, [restore]);
+
+  const undo = useCallback(() => {
+    const step = undoHistory(history, latestRef.current);
+    if (step) {
+      setHistory(step.history);
+      restoreSnapshot(step.snapshot);
+    }
+  }, [history, restoreSnapshot]);
+
+  const redo = useCallback(() => {
+    const step = redoHistory(history, latestRef.current);
+    if (step) {
+      setHistory(step.history);
+      restoreSnapshot(step.snapshot);
+    }
+  }, [history, restoreSnapshot]);
+
+  useEffect(() => {
+    if (!shortcutsEnabled) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, shortcutsEnabled]);
+
+  return {
+    record,
+    seal,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[history.future.length - 1]?.label,
+  };
+};
@@ -0,0 +1,12 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { CanvasState } from '../models/CanvasModels';
+import { CanvasStore } from '../store/CanvasStore';
+
+/**
+ * Creates a canvas store for the lifetime of the component and re-renders it on every change.
+ */
+export const useCanvasStore = (initialState?: CanvasState) => {
+  const [store] = useState(() => new CanvasStore(initialState));
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  return { store, state, dispatch: store.dispatch };
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { CanvasState } from '../models/CanvasModels';
+import { CollaborationClient, collaborationUrl, type CollaborationStatus } from '../collaboration/CollaborationClient';
+import { readCanvasState, writeCanvasChanges } from '../collaboration/canvasCrdt';
+import type { Peer } from '../collaboration/protocol';
+import type { CanvasStore } from '../store/CanvasStore';
+import { EMPTY_CANVAS } from '../store/canvasReducer';
+
+export interface CollaborationSession {
+  roomId: string;
+  // Shown to the other collaborators next to this user's cursor
+  name: string;
+}
+
+interface CollaborationOptions {
+  session: CollaborationSession | null;
+  store: CanvasStore;
+  // Applies the shared canvas locally: the room's canvas on joining, then collaborators' changes
+  onRemoteState: (state: CanvasState, isJoin: boolean) => void;
+}
+
+/**
+ * Shares a canvas with the other collaborators in a room. Joining an empty room shares the local
+ * canvas; joining a room in use replaces the local canvas with the room's. While connected,
+ * every change event of the store is written to the shared document and every remote change
+ * is applied here.
+ */
+export const useCollaboration = ({ session, store, onRemoteState }: CollaborationOptions) => {
+  const [status, setStatus] = useState<CollaborationStatus | null>(null);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const clientRef = useRef<CollaborationClient | null>(null);
+  const isJoinedRef = useRef(false);
+  const onRemoteStateRef = useRef(onRemoteState);
+  // The pointer position waiting for the next animation frame, so moves are sent at most once a frame
+  const cursorRef = useRef<{ x: number; y: number } | undefined>(undefined);
+  const cursorFrameRef = useRef<number | null>(null);
+  const selectionRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    onRemoteStateRef.current = onRemoteState;
+  }, [onRemoteState]);
+
+  const sendPresence = useCallback(() => {
+    if (session) {
+      clientRef.current?.setPresence({ name: session.name, cursor: cursorRef.current, selection: selectionRef.current });
+    }
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    const applyRemote = (isJoin: boolean) => onRemoteStateRef.current(readCanvasState(client.doc, store.getState()), isJoin);
+    const client = new CollaborationClient(collaborationUrl(session.roomId), {
+      onJoined: (isEmpty) => {
+        isJoinedRef.current = true;
+        if (isEmpty) {
+          writeCanvasChanges(client.doc, EMPTY_CANVAS, store.getState());
+        } else {
+          applyRemote(true);
+        }
+      },
+      onRemoteChange: () => applyRemote(false),
+      onPeersChange: setPeers,
+      onStatusChange: setStatus,
+    });
+    clientRef.current = client;
+    // Applying a collaborator's change writes nothing back, as the document already holds it
+    const unsubscribe = store.subscribeEvents((event) => {
+      if (isJoinedRef.current) {
+        writeCanvasChanges(client.doc, event.previous, event.state);
+      }
+    });
+    client.connect();
+    sendPresence();
+    return () => {
+      unsubscribe();
+      if (cursorFrameRef.current !== null) {
+        cancelAnimationFrame(cursorFrameRef.current);
+        cursorFrameRef.current = null;
+      }
+      client.close();
+      clientRef.current = null;
+      isJoinedRef.current = false;
+      setStatus(null);
+      setPeers([]);
+    };
+  }, [session, store, sendPresence]);
+
+  // Compared as a string, so presence is only sent when the selection itself changes
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const selection = JSON.stringify(state.nodes.filter((node) => node.selected).map((node) => node.id));
+  useEffect(() => {
+    selectionRef.current = JSON.parse(selection);
+    sendPresence();
+  }, [selection, sendPresence]);
+
+  const moveCursor = useCallback((cursor: { x: number; y: number } | undefined) => {
+    cursorRef.current = cursor;
+    if (cursorFrameRef.current === null) {
+      cursorFrameRef.current = requestAnimationFrame(() => {
+        cursorFrameRef.current = null;
+        sendPresence();
+      });
+    }
+  }, [sendPresence]);
+
+  return { status, peers, moveCursor };
+};
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import type { EntityPropertyDefinition } from '../models/entityRegistry';
+import { parsePropertyValue, type EntityProperties } from '../models/entityProperties';
+
+type PropertyDrafts = Record<string, { raw: string; error: string }>;
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+};
+
+/**
+ * Tracks the raw text of fields whose current input is invalid, so invalid input stays in the
+ * form (with an error message) and is never written to the canvas.
+ * `applyChange` returns the updated properties when the input is valid, or undefined otherwise.
+ */
+export const usePropertyDrafts = () => {
+  const [drafts, setDrafts] = useState<PropertyDrafts>({});
+
+  const applyChange = (
+    definition: EntityPropertyDefinition,
+    raw: string,
+    properties: EntityProperties = {},
+  ): EntityProperties | undefined => {
+    const result = parsePropertyValue(definition, raw);
+    if (!result.ok) {
+      setDrafts((current) => ({ ...current, [definition.key]: { raw, error: result.error } }));
+      return undefined;
+    }
+
+    setDrafts((current) => withoutKey(current, definition.key));
+    const others = withoutKey(properties, definition.key);
+    return result.value === undefined ? others : { ...others, [definition.key]: result.value };
+  };
+
+  return { drafts, applyChange };
+};
@@ -0,0 +1,491 @@
+import type {
+  CanvasState,
+  CustomNodeType,
+  EntityGroup,
+  EntityGroupMember,
+  EntityNode,
+  RelationshipEdge,
+} from '../models/CanvasModels';
+import { ENTITY_REGISTRY, ENTITY_TYPES, entityTypeForLabels } from '../models/entityRegistry';
+import { pickDeclaredProperties, pickRelationshipProperties } from '../models/entityProperties';
+import { labelForNodeType } from './cypherGenerator';
+import { canonicalNode, isAliasNode, resolveAliases } from './entityAliases';
+import { expandConnector } from './entityGroups';
+import { layeredLayout } from './layeredLayout';
+import {
+  inferEdgeRelationship,
+  relationshipEndpoints,
+  relationshipInstances,
+  resolveEdgeRelationship,
+  reverseRelationshipId,
+} from './relationshipInference';
+
+/**
+ * Bidirectional converter between the canvas state and the Neo4j APOC JSON format
+ * (README Approach 2). Entity properties declared in the registry become node properties, and
+ * UI information is carried alongside them:
+ * `positionAbsolute`, `width` and `height` on nodes, `ui_id`, `source`, `sourceHandle`,
+ * `target` and `targetHandle` on relationships. Groups are expanded into one node per member, as
+ * in generated Cypher: each member node names its group in `ui_group_of` and carries the group's
+ * own data in `ui_group` and its own in `ui_member` (Neo4j properties cannot hold nested objects),
+ * and each relationship of a group's connector names the connector in `ui_connector`. A
+ * bidirectional connector is exported as two relationships; the one running back is recognised by
+ * its `ui_id`.
+ * Aliases are not nodes of their own: the canonical entity lists them in `ui_aliases`, and their
+ * relationships attach to it (with the alias as the stored `source` or `target`).
+ */
+
+export interface ApocNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface ApocRelationship {
+  id: string;
+  type: string;
+  start: string;
+  end: string;
+  properties: Record<string, unknown>;
+}
+
+export interface ApocGraph {
+  nodes: ApocNode[];
+  relationships: ApocRelationship[];
+}
+
+// Spacing between the columns of nodes that have no stored position
+const LAYOUT_COLUMN_SPACING = 320;
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { x?: unknown }).x === 'number' &&
+  typeof (value as { y?: unknown }).y === 'number';
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// Reads an object serialized into a property, or undefined when it is missing or malformed
+const parseObject = (value: unknown): Record<string, unknown> | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Restores the members of a group saved as a single node, with its members in `ui_group`, ignoring anything malformed
+const parseGroup = (value: unknown, type: CustomNodeType): EntityGroup | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    const group = JSON.parse(value);
+    if (!Array.isArray(group?.members)) {
+      return undefined;
+    }
+    const members: EntityGroupMember[] = group.members
+      .filter((member: unknown): member is Record<string, unknown> => typeof member === 'object' && member !== null)
+      .filter((member: Record<string, unknown>) => typeof member.id === 'string' && typeof member.name === 'string')
+      .map((member: Record<string, unknown>) => ({
+        id: member.id as string,
+        name: member.name as string,
+        properties: pickDeclaredProperties(type, member.properties as Record<string, unknown> | undefined),
+      }));
+    return { members, expanded: group.expanded === true };
+  } catch {
+    return undefined;
+  }
+};
+
+// Restores the aliases of an entity stored in `ui_aliases`, ignoring anything malformed
+const parseAliases = (value: unknown, canonical: EntityNode): EntityNode[] => {
+  if (typeof value !== 'string') {
+    return [];
+  }
+  try {
+    const aliases = JSON.parse(value);
+    return (Array.isArray(aliases) ? aliases : [])
+      .filter((alias: unknown): alias is Record<string, unknown> => typeof alias === 'object' && alias !== null)
+      .filter((alias: Record<string, unknown>) => typeof alias.id === 'string' && isPoint(alias.position))
+      .map((alias: Record<string, unknown>) => {
+        const position = alias.position as { x: number; y: number };
+        return {
+          id: alias.id as string,
+          type: canonical.type,
+          position: { x: position.x, y: position.y },
+          positionAbsolute: { x: position.x, y: position.y },
+          data: { label: canonical.data.label, name: canonical.data.name, aliasOf: canonical.id },
+        };
+      });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Converts the canvas state into the APOC `{ nodes, relationships }` shape.
+ * Nodes keep their canvas id; relationships follow the inferred direction.
+ */
+export const canvasToApoc = (state: CanvasState): ApocGraph => {
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+  const aliasesById = new Map<string, { id: string; position: { x: number; y: number } }[]>();
+  state.nodes.forEach((node) => {
+    const canonical = isAliasNode(node) ? canonicalNode(nodesById, node) : undefined;
+    if (canonical) {
+      const position = { ...(node.positionAbsolute ?? node.position) };
+      aliasesById.set(canonical.id, [...(aliasesById.get(canonical.id) ?? []), { id: node.id, position }]);
+    }
+  });
+  const resolved = resolveAliases(state);
+
+  const nodes: ApocNode[] = [];
+  resolved.nodes.forEach((node) => {
+    const label = labelForNodeType(node.type);
+    if (!label) {
+      return;
+    }
+    const layout: Record<string, unknown> = {
+      positionAbsolute: { ...(node.positionAbsolute ?? node.position) },
+      selected: node.selected ?? false,
+    };
+    if (node.width != null) layout.width = node.width;
+    if (node.height != null) layout.height = node.height;
+
+    if (node.data.group) {
+      // Every member node carries the group, so the group comes back from any of them
+      const group = JSON.stringify({ name: node.data.name, properties: node.data.properties ?? {}, expanded: node.data.group.expanded ?? false });
+      node.data.group.members.forEach((member, index) =>
+        nodes.push({
+          id: member.id,
+          labels: [label],
+          properties: {
+            ...pickDeclaredProperties(node.type, { ...node.data.properties, ...member.properties }),
+            ui_id: member.id,
+            name: member.name,
+            ...layout,
+            ui_group_of: node.id,
+            ui_group: group,
+            ui_member: JSON.stringify({ index, properties: member.properties ?? {} }),
+          },
+        })
+      );
+      return;
+    }
+
+    const properties: Record<string, unknown> = {
+      ...pickDeclaredProperties(node.type, node.data.properties),
+      ui_id: node.id,
+      name: node.data.name,
+      ...layout,
+    };
+    if (aliasesById.has(node.id)) properties.ui_aliases = JSON.stringify(aliasesById.get(node.id));
+    nodes.push({ id: node.id, labels: [label], properties });
+  });
+
+  // Resolving aliases keeps connectors in order, so each one lines up with its re-pointed copy
+  const resolvedById = new Map(resolved.nodes.map((node) => [node.id, node]));
+  const relationships: ApocRelationship[] = [];
+  state.edges.forEach((edge, index) => {
+    const relationship = resolveEdgeRelationship(edge, state.nodes);
+    if (!relationship) {
+      return;
+    }
+    const instances = expandConnector(resolvedById, resolved.edges[index]);
+    instances.forEach((instance) =>
+      relationshipInstances(instance, relationship).forEach(({ id, start, end }) => {
+        relationships.push({
+          id,
+          type: relationship.relationshipType,
+          start,
+          end,
+          properties: {
+            ...pickRelationshipProperties(relationship.relationshipType, relationship.properties),
+            ui_id: id,
+            ...(instance.id !== edge.id ? { ui_connector: edge.id } : {}),
+            source: edge.source,
+            sourceHandle: edge.sourceHandle ?? null,
+            target: edge.target,
+            targetHandle: edge.targetHandle ?? null,
+          },
+        });
+      })
+    );
+  });
+
+  return { nodes, relationships };
+};
+
+// Plain graph data does not say which way a connector was drawn. Draw it the way relationship
+// inference would produce this relationship type, so it is not flagged as an override.
+const plainConnector = (start: string, end: string, type: string, nodes: EntityNode[]): { source: string; target: string } => {
+  const backwards = inferEdgeRelationship({ source: end, target: start }, nodes);
+  const forwards = inferEdgeRelationship({ source: start, target: end }, nodes);
+  const matchesForwards = forwards.ok && forwards.rule.relationshipType === type && forwards.rule.direction === 'forward';
+  const matchesBackwards = backwards.ok && backwards.rule.relationshipType === type && backwards.rule.direction === 'reverse';
+  return !matchesForwards && matchesBackwards ? { source: end, target: start } : { source: start, target: end };
+};
+
+// Same-type entities stay together within a column, in registry order, then by name
+const compareForLayout = (nodesById: Map<string, EntityNode>) => (a: string, b: string): number => {
+  const nodeA = nodesById.get(a)!;
+  const nodeB = nodesById.get(b)!;
+  const byType = ENTITY_TYPES.indexOf(nodeA.type as CustomNodeType) - ENTITY_TYPES.indexOf(nodeB.type as CustomNodeType);
+  return byType !== 0 ? byType : nodeA.data.name.localeCompare(nodeB.data.name);
+};
+
+// Places the nodes without a stored position with a layered layout, to the right of any placed nodes
+const layoutUnplacedNodes = (nodes: EntityNode[], edges: RelationshipEdge[], unplaced: Set<string>): EntityNode[] => {
+  if (unplaced.size === 0) {
+    return nodes;
+  }
+  const placed = nodes.filter((node) => !unplaced.has(node.id));
+  const origin = placed.length === 0
+    ? { x: 0, y: 0 }
+    : {
+        x: Math.max(...placed.map((node) => node.position.x)) + LAYOUT_COLUMN_SPACING,
+        y: Math.min(...placed.map((node) => node.position.y)),
+      };
+  const links = edges.map((edge) => relationshipEndpoints(edge, edge.data?.direction ?? 'forward'))
+    .map(({ start, end }) => ({ source: start, target: end }));
+  const positions = layeredLayout([...unplaced], links, {
+    origin,
+    columnSpacing: LAYOUT_COLUMN_SPACING,
+    compare: compareForLayout(new Map(nodes.map((node) => [node.id, node]))),
+  });
+  return nodes.map((node) => {
+    const position = positions.get(node.id);
+    return position ? { ...node, position, positionAbsolute: { ...position } } : node;
+  });
+};
+
+// The layout part of a card read from a node's UI properties; nodes without a position are noted in `unplaced`
+const placeCard = (
+  id: string,
+  type: CustomNodeType,
+  properties: Record<string, unknown>,
+  unplaced: Set<string>
+): Omit<EntityNode, 'data'> => {
+  const position = isPoint(properties.positionAbsolute)
+    ? { x: properties.positionAbsolute.x, y: properties.positionAbsolute.y }
+    : { x: 0, y: 0 };
+  if (!isPoint(properties.positionAbsolute)) {
+    unplaced.add(id);
+  }
+  return {
+    id,
+    type,
+    position,
+    positionAbsolute: { ...position },
+    ...(typeof properties.width === 'number' ? { width: properties.width } : {}),
+    ...(typeof properties.height === 'number' ? { height: properties.height } : {}),
+    selected: properties.selected === true,
+  };
+};
+
+/**
+ * Converts an APOC graph back into canvas state, restoring layout and edges from the UI properties.
+ * Plain graph data without UI properties (e.g. a graph created outside the modeler) is laid out
+ * in columns with a layered layout, and its relationships become ordinary connectors.
+ * Nodes whose labels do not match an entity type are skipped, along with their relationships.
+ */
+export const apocToCanvas = (graph: ApocGraph): CanvasState => {
+  const canvasIds = new Map<string, string>();
+  const nodes: EntityNode[] = [];
+  const unplaced = new Set<string>();
+  // Groups read back from their member nodes, with each member's place in the list
+  const groups = new Map<string, { node: EntityNode; members: { index: number; member: EntityGroupMember }[] }>();
+
+  graph.nodes.forEach((apocNode) => {
+    const type = entityTypeForLabels(apocNode.labels);
+    if (!type) {
+      return;
+    }
+    const { properties } = apocNode;
+    const id = optionalString(properties.ui_id) ?? apocNode.id;
+    const groupId = optionalString(properties.ui_group_of);
+    const storedGroup = groupId !== undefined ? parseObject(properties.ui_group) : undefined;
+
+    if (groupId !== undefined && storedGroup) {
+      canvasIds.set(apocNode.id, groupId);
+      const storedMember = parseObject(properties.ui_member);
+      const member: EntityGroupMember = {
+        id,
+        name: optionalString(properties.name) ?? '',
+        properties: pickDeclaredProperties(type, storedMember?.properties as Record<string, unknown> | undefined),
+      };
+      const index = typeof storedMember?.index === 'number' ? storedMember.index : Number.MAX_SAFE_INTEGER;
+      // The first member found brings back the group's card, placed where the member was saved
+      if (!groups.has(groupId)) {
+        const node: EntityNode = {
+          ...placeCard(groupId, type, properties, unplaced),
+          data: {
+            label: ENTITY_REGISTRY[type].label,
+            name: optionalString(storedGroup.name) ?? '',
+            properties: pickDeclaredProperties(type, storedGroup.properties as Record<string, unknown> | undefined),
+            group: { members: [], expanded: storedGroup.expanded === true },
+          },
+        };
+        groups.set(groupId, { node, members: [] });
+        nodes.push(node);
+      }
+      groups.get(groupId)!.members.push({ index, member });
+      return;
+    }
+
+    const group = parseGroup(properties.ui_group, type);
+
+    canvasIds.set(apocNode.id, id);
+    const node: EntityNode = {
+      ...placeCard(id, type, properties, unplaced),
+      data: {
+        label: ENTITY_REGISTRY[type].label,
+        name: optionalString(properties.name) ?? '',
+        properties: pickDeclaredProperties(type, properties),
+        ...(group ? { group } : {}),
+      },
+    };
+    // Aliases keep their own position, so they never need laying out
+    nodes.push(node, ...parseAliases(properties.ui_aliases, node));
+  });
+  groups.forEach(({ node, members }) => {
+    node.data.group!.members = members.sort((a, b) => a.index - b.index).map(({ member }) => member);
+  });
+
+  // The relationships running back for bidirectional connectors, by the `ui_id` they were written with
+  const uiIds = new Set(graph.relationships.map((relationship) => optionalString(relationship.properties.ui_id)));
+  const reverseIds = new Set(
+    [...uiIds].filter((id): id is string => id !== undefined && uiIds.has(reverseRelationshipId(id))).map(reverseRelationshipId)
+  );
+
+  const edges: RelationshipEdge[] = [];
+  const connectors = new Set<string>();
+  graph.relationships.forEach((relationship) => {
+    const start = canvasIds.get(relationship.start);
+    const end = canvasIds.get(relationship.end);
+    const { properties } = relationship;
+    const uiId = optionalString(properties.ui_id);
+    if (!start || !end || (uiId && reverseIds.has(uiId))) {
+      return;
+    }
+    // A connector of a group was saved as one relationship per member, and comes back once
+    const connectorId = optionalString(properties.ui_connector);
+    if (connectorId !== undefined) {
+      if (connectors.has(connectorId)) {
+        return;
+      }
+      connectors.add(connectorId);
+    }
+    // The stored canvas source/target tell us which way the connector was drawn
+    const drawn = plainConnector(start, end, relationship.type, nodes);
+    const source = optionalString(properties.source) ?? drawn.source;
+    const target = optionalString(properties.target) ?? drawn.target;
+    // A relationship type other than the inferred one means the user overrode it
+    const inference = inferEdgeRelationship({ source, target }, nodes);
+    const overridden = !inference.ok || inference.rule.relationshipType !== relationship.type;
+    const bidirectional = uiId !== undefined && reverseIds.has(reverseRelationshipId(uiId));
+    edges.push({
+      id: connectorId ?? uiId ?? `edge-${relationship.id}`,
+      source,
+      sourceHandle: optionalString(properties.sourceHandle) ?? null,
+      target,
+      targetHandle: optionalString(properties.targetHandle) ?? null,
+      type: 'customEdge',
+      animated: true,
+      data: {
+        relationshipType: relationship.type,
+        direction: source === start ? 'forward' : 'reverse',
+        ...(overridden ? { overridden } : {}),
+        ...(bidirectional ? { bidirectional } : {}),
+        properties: pickRelationshipProperties(relationship.type, properties),
+      },
+    });
+  });
+
+  return { nodes: layoutUnplacedNodes(nodes, edges, unplaced), edges };
+};
+
+interface ApocDumpEntity {
+  type: 'node' | 'relationship';
+  id: string | number;
+  labels?: string[];
+  label?: string;
+  start?: { id: string | number };
+  end?: { id: string | number };
+  properties?: Record<string, unknown>;
+}
+
+const hasValue = (value: unknown) => value !== undefined && value !== null;
+
+/**
+ * Parses APOC JSON text. Accepts both the `{ nodes, relationships }` document shown in the README
+ * and the line-delimited output written by `apoc.export.json.all`.
+ * Throws an Error describing the problem when the text is in neither format.
+ */
+export const parseApocJson = (text: string): ApocGraph => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The APOC export is empty.');
+  }
+
+  let document: { nodes?: unknown; relationships?: unknown } | null = null;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    // Not a single JSON document, fall through to the line-delimited format
+  }
+  if (Array.isArray(document?.nodes) && Array.isArray(document?.relationships)) {
+    return {
+      nodes: document.nodes.map((n: Partial<ApocNode> | null, index: number) => {
+        if (!n || typeof n !== 'object' || !hasValue(n.id)) {
+          throw new Error(`Node ${index + 1} of the APOC export is not a node.`);
+        }
+        return { ...n, id: String(n.id), labels: n.labels ?? [], properties: n.properties ?? {} };
+      }),
+      relationships: document.relationships.map((r: Partial<ApocRelationship> | null, index: number) => {
+        if (!r || typeof r !== 'object' || !hasValue(r.id) || !r.type || !hasValue(r.start) || !hasValue(r.end)) {
+          throw new Error(`Relationship ${index + 1} of the APOC export is not a relationship.`);
+        }
+        return {
+          ...r,
+          id: String(r.id),
+          type: r.type,
+          start: String(r.start),
+          end: String(r.end),
+          properties: r.properties ?? {},
+        };
+      }),
+    };
+  }
+
+  const graph: ApocGraph = { nodes: [], relationships: [] };
+  trimmed.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entity: ApocDumpEntity;
+    try {
+      entity = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of the APOC export is not valid JSON.`);
+    }
+    if (entity.type === 'node') {
+      graph.nodes.push({ id: String(entity.id), labels: entity.labels ?? [], properties: entity.properties ?? {} });
+    } else if (entity.type === 'relationship' && entity.start && entity.end && entity.label) {
+      graph.relationships.push({
+        id: String(entity.id),
+        type: entity.label,
+        start: String(entity.start.id),
+        end: String(entity.end.id),
+        properties: entity.properties ?? {},
+      });
+    } else {
+      throw new Error(`Line ${index + 1} of the APOC export is not a node or relationship.`);
+    }
+  });
+  return graph;
+};
@@ -0,0 +1,136 @@
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import { handleId, type HandleSide } from '../models/connectionHandles';
+import { getEntityDefinition, type CustomNodeType } from '../models/entityRegistry';
+import { inferRelationship } from './relationshipInference';
+
+/**
+ * Generated diagrams for measuring the canvas with thousands of entities, shaped like a supply
+ * chain: mostly suppliers, some employees and a few companies, each connected to entities close
+ * by on a grid. The same options always generate the same diagram, so runs can be compared.
+ */
+
+export interface BenchmarkOptions {
+  nodeCount: number;
+  edgeCount: number;
+  seed: number;
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { nodeCount: 5000, edgeCount: 10000, seed: 1 };
+// Largest diagram a query string can request, so a mistyped size cannot exhaust the browser's memory
+export const MAX_BENCHMARK: Pick<BenchmarkOptions, 'nodeCount' | 'edgeCount'> = { nodeCount: 20000, edgeCount: 50000 };
+
+const GRID_SPACING = { x: 280, y: 180 };
+// Share of each entity type, the rest being suppliers
+const TYPE_SHARES: [CustomNodeType, number][] = [
+  ['company', 0.1],
+  ['employee', 0.3],
+];
+// Attempts per requested connector before giving up (pairs of types that cannot be connected are retried)
+const ATTEMPTS_PER_EDGE = 20;
+
+// Small seeded pseudo-random generator (mulberry32), returning numbers in [0, 1)
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const typeFor = (value: number): CustomNodeType => {
+  let threshold = 0;
+  for (const [type, share] of TYPE_SHARES) {
+    threshold += share;
+    if (value < threshold) {
+      return type;
+    }
+  }
+  return 'supplier';
+};
+
+// Sides facing each other, so connectors between neighbours stay short
+const facingSides = (source: EntityNode, target: EntityNode): [HandleSide, HandleSide] => {
+  const dx = target.position.x - source.position.x;
+  const dy = target.position.y - source.position.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+  }
+  return dy >= 0 ? ['bottom', 'top'] : ['top', 'bottom'];
+};
+
+/**
+ * Generates a diagram of `nodeCount` entities on a grid and up to `edgeCount` connectors, each
+ * with its inferred relationship. Fewer connectors are generated when the entities cannot take that
+ * many distinct ones.
+ */
+export const generateBenchmarkDiagram = ({ nodeCount, edgeCount, seed }: BenchmarkOptions): CanvasState => {
+  const random = seededRandom(seed);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(nodeCount)));
+
+  const nodes = Array.from({ length: nodeCount }, (_, index): EntityNode => {
+    const type = typeFor(random());
+    const label = getEntityDefinition(type)!.label;
+    return {
+      id: `benchmark-node-${index + 1}`,
+      type,
+      position: { x: (index % columns) * GRID_SPACING.x, y: Math.floor(index / columns) * GRID_SPACING.y },
+      data: { label, name: `${label} ${index + 1}`, properties: {} },
+    };
+  });
+
+  // Connectors join entities at most two rows or columns apart
+  const neighbourhood = 2 * columns + 2;
+  const pairs = new Set<string>();
+  const edges: RelationshipEdge[] = [];
+  for (let attempt = 0; nodeCount > 1 && edges.length < edgeCount && attempt < edgeCount * ATTEMPTS_PER_EDGE; attempt++) {
+    const sourceIndex = Math.floor(random() * nodeCount);
+    const offset = Math.floor(random() * (2 * neighbourhood + 1)) - neighbourhood;
+    const targetIndex = sourceIndex + offset;
+    if (offset === 0 || targetIndex < 0 || targetIndex >= nodeCount) {
+      continue;
+    }
+    const source = nodes[sourceIndex];
+    const target = nodes[targetIndex];
+    const key = `${source.id}->${target.id}`;
+    const inference = inferRelationship(source.type as CustomNodeType, target.type as CustomNodeType);
+    if (!inference.ok || pairs.has(key) || pairs.has(`${target.id}->${source.id}`)) {
+      continue;
+    }
+    pairs.add(key);
+    const [sourceSide, targetSide] = facingSides(source, target);
+    edges.push({
+      id: `benchmark-edge-${edges.length + 1}`,
+      source: source.id,
+      target: target.id,
+      sourceHandle: handleId('source', sourceSide),
+      targetHandle: handleId('target', targetSide),
+      type: 'customEdge',
+      data: { relationshipType: inference.rule.relationshipType, direction: inference.rule.direction },
+    });
+  }
+
+  return { nodes, edges };
+};
+
+/**
+ * Reads the benchmark requested in a page's query string: `?benchmark` for the default diagram, or
+ * `?benchmark=<nodes>x<edges>` with an optional `&seed=<n>`. Sizes above `MAX_BENCHMARK` are reduced
+ * to it. Returns undefined when none is requested.
+ */
+export const parseBenchmarkQuery = (search: string): BenchmarkOptions | undefined => {
+  const params = new URLSearchParams(search);
+  const value = params.get('benchmark');
+  if (value === null) {
+    return undefined;
+  }
+  const size = /^(\d+)x(\d+)$/.exec(value.trim());
+  const seed = Number(params.get('seed'));
+  return {
+    nodeCount: size ? Math.min(Number(size[1]), MAX_BENCHMARK.nodeCount) : DEFAULT_BENCHMARK.nodeCount,
+    edgeCount: size ? Math.min(Number(size[2]), MAX_BENCHMARK.edgeCount) : DEFAULT_BENCHMARK.edgeCount,
+    seed: Number.isInteger(seed) && seed > 0 ? seed : DEFAULT_BENCHMARK.seed,
+  };
+};
@@ -0,0 +1,232 @@
+import type { CanvasState, EntityNode, RelationshipEdge, RelationshipEdgeData } from '../models/CanvasModels';
+import { handleId, type HandleSide } from '../models/connectionHandles';
+import { ENTITY_TYPES, entityTypeForLabels, getEntityDefinition, isEntityType, type CustomNodeType } from '../models/entityRegistry';
+import { parsePropertyValue, type EntityProperties } from '../models/entityProperties';
+import type { DelimitedTable } from '../utils/csv';
+import { inferRelationship } from './relationshipInference';
+
+/**
+ * Bulk import of entities from a table (CSV or TSV), e.g. the 200 employees of a company.
+ *
+ * Each row becomes one entity. Columns are mapped to the entity's name, type and properties;
+ * every new entity can be connected to an existing anchor entity (the relationship is inferred
+ * as when drawing a connector), and the new entities are laid out around it.
+ */
+
+export type ImportLayout = 'grid' | 'layered';
+
+export interface ImportMapping {
+  nameColumn: number;
+  // Type of every row, unless a type column names it (by type or label) for each row
+  entityType: CustomNodeType;
+  typeColumn?: number;
+  // Column holding each property, by property key
+  propertyColumns: Record<string, number>;
+}
+
+export interface BulkImportOptions {
+  mapping: ImportMapping;
+  // Existing entity every new entity is connected to
+  anchorId?: string;
+  layout: ImportLayout;
+}
+
+export interface ImportRowIssue {
+  // 1-based line of the table's text the row starts on
+  line: number;
+  message: string;
+}
+
+export interface BulkImportPlan {
+  // The entities and connectors to add to the canvas
+  state: CanvasState;
+  // Rows that were skipped and values that were dropped
+  issues: ImportRowIssue[];
+  skippedRows: number;
+}
+
+const GRID_SPACING = { x: 280, y: 180 };
+const LAYER_SPACING = { x: 320, y: 160 };
+// Longest column of the layered arrangement before it wraps into another column
+const LAYER_ROWS = 10;
+// Gap between the anchor (or the existing diagram) and the imported entities
+const ANCHOR_GAP = 240;
+
+const normalize = (text: string): string => text.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * Guesses a mapping from the column headers: columns named like the name, type or a property
+ * (by key or label) are mapped to it.
+ */
+export const suggestMapping = (headers: string[], entityType: CustomNodeType = ENTITY_TYPES[0]): ImportMapping => {
+  const find = (...names: string[]) => {
+    const index = headers.findIndex((header) => names.map(normalize).includes(normalize(header)));
+    return index === -1 ? undefined : index;
+  };
+  const propertyColumns: Record<string, number> = {};
+  ENTITY_TYPES.forEach((type) =>
+    getEntityDefinition(type)?.properties.forEach((property) => {
+      const column = find(property.key, property.label);
+      if (column !== undefined && propertyColumns[property.key] === undefined) {
+        propertyColumns[property.key] = column;
+      }
+    })
+  );
+  return {
+    nameColumn: find('name', 'title') ?? 0,
+    entityType,
+    typeColumn: find('type', 'entity type', 'label'),
+    propertyColumns,
+  };
+};
+
+// Resolves a type column value given as a type (`company`), label (`Company`) or Neo4j label (`COMPANY`)
+const typeForValue = (value: string): CustomNodeType | undefined => {
+  const trimmed = value.trim();
+  return isEntityType(trimmed.toLowerCase()) ? (trimmed.toLowerCase() as CustomNodeType) : entityTypeForLabels([trimmed]);
+};
+
+// Rows of about √count positions, centred horizontally on `centreX`
+const gridPositions = (count: number, centreX: number, top: number): { x: number; y: number }[] => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+  const left = centreX - ((Math.min(count, columns) - 1) * GRID_SPACING.x) / 2;
+  return Array.from({ length: count }, (_, index) => ({
+    x: left + (index % columns) * GRID_SPACING.x,
+    y: top + Math.floor(index / columns) * GRID_SPACING.y,
+  }));
+};
+
+// Columns of at most LAYER_ROWS, moving away from `x` by `step`, centred vertically on `centreY`
+const layerPositions = (count: number, x: number, centreY: number, step: number): { x: number; y: number }[] =>
+  Array.from({ length: count }, (_, index) => {
+    const column = Math.floor(index / LAYER_ROWS);
+    const rowsInColumn = Math.min(LAYER_ROWS, count - column * LAYER_ROWS);
+    const row = index % LAYER_ROWS;
+    return { x: x + column * step, y: centreY + (row - (rowsInColumn - 1) / 2) * LAYER_SPACING.y };
+  });
+
+/**
+ * Turns the rows of a table into new entities (and connectors to the anchor), laid out around the
+ * anchor, or below the existing diagram when there is none. Rows without a name or with an unknown
+ * type are skipped; property values that are not valid are dropped. Nothing is changed on the canvas.
+ */
+export const planBulkImport = (state: CanvasState, table: DelimitedTable, { mapping, anchorId, layout }: BulkImportOptions): BulkImportPlan => {
+  const issues: ImportRowIssue[] = [];
+  const anchor = anchorId !== undefined ? state.nodes.find((node) => node.id === anchorId) : undefined;
+  const lineOf = new Map<string, number>();
+
+  const entities = table.rows.flatMap((row, index): EntityNode[] => {
+    const line = table.lines[index];
+    const name = (row[mapping.nameColumn] ?? '').trim();
+    if (!name) {
+      issues.push({ line, message: 'The row has no name and was skipped.' });
+      return [];
+    }
+    const typeValue = mapping.typeColumn !== undefined ? (row[mapping.typeColumn] ?? '').trim() : undefined;
+    const type = typeValue !== undefined ? typeForValue(typeValue) : mapping.entityType;
+    if (!type) {
+      const message = typeValue ? `Unknown entity type "${typeValue}"; the row was skipped.` : 'The row has no entity type and was skipped.';
+      issues.push({ line, message });
+      return [];
+    }
+
+    const definition = getEntityDefinition(type)!;
+    const properties: EntityProperties = {};
+    definition.properties.forEach((property) => {
+      const column = mapping.propertyColumns[property.key];
+      if (column === undefined) {
+        return;
+      }
+      const result = parsePropertyValue(property, row[column] ?? '');
+      if (!result.ok) {
+        issues.push({ line, message: `${result.error} The value was not imported.` });
+      } else if (result.value !== undefined) {
+        properties[property.key] = result.value;
+      }
+    });
+    const id = crypto.randomUUID();
+    lineOf.set(id, line);
+    return [{ id, type, position: { x: 0, y: 0 }, data: { label: definition.label, name, properties } }];
+  });
+
+  // Connect each entity to the anchor, reporting each type that cannot be connected once
+  const connections = new Map<string, RelationshipEdgeData>();
+  const unconnectable = new Set<string>();
+  if (anchor) {
+    entities.forEach((entity) => {
+      const inference = inferRelationship(entity.type as CustomNodeType, anchor.type as CustomNodeType);
+      if (inference.ok) {
+        connections.set(entity.id, { relationshipType: inference.rule.relationshipType, direction: inference.rule.direction });
+      } else if (!unconnectable.has(entity.data.label)) {
+        unconnectable.add(entity.data.label);
+        issues.push({
+          line: lineOf.get(entity.id)!,
+          message: `${entity.data.label} entities cannot be connected to "${anchor.data.name}". ${inference.reason}`,
+        });
+      }
+    });
+  }
+
+  // In layers, entities whose relationship starts at them sit left of the anchor, the others right of it
+  const isBefore = (entity: EntityNode) => connections.get(entity.id)?.direction !== 'reverse';
+  const positions = new Map<string, { x: number; y: number }>();
+  const place = (group: EntityNode[], points: { x: number; y: number }[]) =>
+    group.forEach((entity, index) => positions.set(entity.id, points[index]));
+
+  if (anchor) {
+    const { x, y } = anchor.position;
+    if (layout === 'layered') {
+      const before = entities.filter(isBefore);
+      const after = entities.filter((entity) => !isBefore(entity));
+      place(before, layerPositions(before.length, x - LAYER_SPACING.x, y, -LAYER_SPACING.x));
+      place(after, layerPositions(after.length, x + LAYER_SPACING.x, y, LAYER_SPACING.x));
+    } else {
+      place(entities, gridPositions(entities.length, x, y + ANCHOR_GAP));
+    }
+  } else {
+    // Without an anchor the entities go below everything already on the canvas
+    const left = state.nodes.length > 0 ? Math.min(...state.nodes.map((node) => node.position.x)) : 0;
+    const top = state.nodes.length > 0 ? Math.max(...state.nodes.map((node) => node.position.y)) + ANCHOR_GAP : 0;
+    if (layout === 'layered') {
+      place(entities, layerPositions(entities.length, left, top + ((LAYER_ROWS - 1) * LAYER_SPACING.y) / 2, LAYER_SPACING.x));
+    } else {
+      const columns = Math.max(1, Math.ceil(Math.sqrt(entities.length)));
+      place(entities, gridPositions(entities.length, left + ((Math.min(entities.length, columns) - 1) * GRID_SPACING.x) / 2, top));
+    }
+  }
+
+  // Connectors run between the facing sides of each entity and the anchor
+  const facing = (entity: EntityNode): [HandleSide, HandleSide] => {
+    if (layout === 'grid') {
+      return ['top', 'bottom'];
+    }
+    return isBefore(entity) ? ['right', 'left'] : ['left', 'right'];
+  };
+  const edges = anchor
+    ? entities.flatMap((entity): RelationshipEdge[] => {
+        const data = connections.get(entity.id);
+        if (!data) {
+          return [];
+        }
+        const [sourceSide, targetSide] = facing(entity);
+        return [
+          {
+            id: crypto.randomUUID(),
+            source: entity.id,
+            target: anchor.id,
+            sourceHandle: handleId('source', sourceSide),
+            targetHandle: handleId('target', targetSide),
+            type: 'customEdge',
+            animated: true,
+            data,
+          },
+        ];
+      })
+    : [];
+
+  return {
+    state: { nodes: entities.map((entity) => ({ ...entity, position: positions.get(entity.id)! })), edges },
+    issues,
+    skippedRows: table.rows.length - entities.length,
+  };
+};
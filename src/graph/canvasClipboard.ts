@@ -0,0 +1,91 @@
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import { generateUniqueId } from '../utils/ids';
+
+/**
+ * Copy, cut, paste and duplicate of a selection of entities.
+ *
+ * A copied selection is a canvas of its own: the selected entities and the connectors running
+ * between two of them. Pasting gives every entity, group member and connector a new id, so one
+ * selection can be pasted any number of times, into the canvas it came from or another one.
+ */
+
+// How far a paste is moved from the copied entities, and from each earlier paste of them
+export const PASTE_OFFSET = { x: 40, y: 40 };
+
+/**
+ * Returns the given entities and the connectors between them, unselected.
+ */
+export const copySelection = (state: CanvasState, nodeIds: string[]): CanvasState => {
+  const ids = new Set(nodeIds);
+  return {
+    nodes: state.nodes.filter((node) => ids.has(node.id)).map((node) => ({ ...node, selected: false })),
+    edges: state.edges
+      .filter((edge) => ids.has(edge.source) && ids.has(edge.target))
+      .map((edge) => ({ ...edge, selected: false })),
+  };
+};
+
+/**
+ * Removes the given entities and every connector attached to them, as deleting them does.
+ */
+export const removeSelection = (state: CanvasState, nodeIds: string[]): CanvasState => {
+  const ids = new Set(nodeIds);
+  return {
+    nodes: state.nodes.filter((node) => !ids.has(node.id)),
+    edges: state.edges.filter((edge) => !ids.has(edge.source) && !ids.has(edge.target)),
+  };
+};
+
+// The smallest multiple of PASTE_OFFSET that puts no pasted entity exactly on top of an existing one
+const pasteOffset = (state: CanvasState, pasted: EntityNode[]): { x: number; y: number } => {
+  const occupied = new Set(state.nodes.map((node) => `${node.position.x},${node.position.y}`));
+  let step = 1;
+  while (pasted.some((node) => occupied.has(`${node.position.x + step * PASTE_OFFSET.x},${node.position.y + step * PASTE_OFFSET.y}`))) {
+    step++;
+  }
+  return { x: step * PASTE_OFFSET.x, y: step * PASTE_OFFSET.y };
+};
+
+/**
+ * Adds copied elements to the canvas under new ids, offset from where they were copied. The pasted
+ * elements become the selection. A reference keeps referring to its entity when that was copied
+ * along or is on this canvas; otherwise it becomes an entity of its own.
+ */
+export const pasteElements = (state: CanvasState, elements: CanvasState): CanvasState => {
+  const offset = pasteOffset(state, elements.nodes);
+  const newIds = new Map(elements.nodes.map((node) => [node.id, generateUniqueId('node')]));
+  const canvasIds = new Set(state.nodes.map((node) => node.id));
+
+  const nodes = elements.nodes.map((node): EntityNode => {
+    const { aliasOf, group, ...data } = node.data;
+    const entityId = aliasOf === undefined ? undefined : (newIds.get(aliasOf) ?? (canvasIds.has(aliasOf) ? aliasOf : undefined));
+    return {
+      ...node,
+      id: newIds.get(node.id)!,
+      position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+      selected: true,
+      data: {
+        ...data,
+        ...(entityId !== undefined && { aliasOf: entityId }),
+        // Group members are entities in the generated graph, so they need new ids too
+        ...(group && { group: { ...group, members: group.members.map((member) => ({ ...member, id: generateUniqueId('node') })) } }),
+      },
+    };
+  });
+  const edges = elements.edges.flatMap((edge): RelationshipEdge[] => {
+    const source = newIds.get(edge.source);
+    const target = newIds.get(edge.target);
+    return source && target ? [{ ...edge, id: generateUniqueId('edge'), source, target, selected: true }] : [];
+  });
+
+  return {
+    nodes: [...state.nodes.map((node) => ({ ...node, selected: false })), ...nodes],
+    edges: [...state.edges.map((edge) => ({ ...edge, selected: false })), ...edges],
+  };
+};
+
+/**
+ * Pastes a copy of the given entities (and the connectors between them) next to them.
+ */
+export const duplicateSelection = (state: CanvasState, nodeIds: string[]): CanvasState =>
+  pasteElements(state, copySelection(state, nodeIds));
@@ -0,0 +1,138 @@
+import type { CanvasState, EntityNode } from '../models/CanvasModels';
+import { pickDeclaredProperties, pickRelationshipProperties, type EntityProperties } from '../models/entityProperties';
+import { toGraphCanvas } from './entityAliases';
+import { relationshipInstances, resolveEdgeRelationship } from './relationshipInference';
+
+/**
+ * Diffs two canvas snapshots, matching nodes and edges by id.
+ *
+ * Both snapshots are compared as the graph they generate: aliases are collapsed, groups are expanded and connectors
+ * are resolved to relationships (type plus start and end node), so the diff describes exactly
+ * what has to change in Neo4j. Moves are reported too, although they only affect the layout.
+ */
+
+// A connector as a relationship it generates (bidirectional connectors generate two)
+export interface GraphRelationship {
+  id: string;
+  type: string;
+  start: string;
+  end: string;
+  properties: EntityProperties;
+}
+
+export interface ElementChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface CanvasDiff {
+  addedNodes: EntityNode[];
+  removedNodes: EntityNode[];
+  renamedNodes: ElementChange<EntityNode>[];
+  // Entity type (and so Neo4j label) changed
+  retypedNodes: ElementChange<EntityNode>[];
+  movedNodes: ElementChange<EntityNode>[];
+  // Declared properties changed
+  updatedNodes: ElementChange<EntityNode>[];
+  addedRelationships: GraphRelationship[];
+  removedRelationships: GraphRelationship[];
+  // Relationship type or direction changed
+  retypedRelationships: ElementChange<GraphRelationship>[];
+  updatedRelationships: ElementChange<GraphRelationship>[];
+}
+
+const sameProperties = (a: EntityProperties, b: EntityProperties): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => a[key] === b[key]);
+};
+
+const toRelationships = (state: CanvasState): Map<string, GraphRelationship> => {
+  const relationships = new Map<string, GraphRelationship>();
+  state.edges.forEach((edge) => {
+    const relationship = resolveEdgeRelationship(edge, state.nodes);
+    if (!relationship) {
+      return;
+    }
+    relationshipInstances(edge, relationship).forEach((instance) => {
+      relationships.set(instance.id, {
+        ...instance,
+        type: relationship.relationshipType,
+        properties: pickRelationshipProperties(relationship.relationshipType, relationship.properties),
+      });
+    });
+  });
+  return relationships;
+};
+
+export const diffCanvas = (beforeCanvas: CanvasState, afterCanvas: CanvasState): CanvasDiff => {
+  const before = toGraphCanvas(beforeCanvas);
+  const after = toGraphCanvas(afterCanvas);
+  const diff: CanvasDiff = {
+    addedNodes: [],
+    removedNodes: [],
+    renamedNodes: [],
+    retypedNodes: [],
+    movedNodes: [],
+    updatedNodes: [],
+    addedRelationships: [],
+    removedRelationships: [],
+    retypedRelationships: [],
+    updatedRelationships: [],
+  };
+
+  const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]));
+  const afterIds = new Set(after.nodes.map((node) => node.id));
+  after.nodes.forEach((node) => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      diff.addedNodes.push(node);
+      return;
+    }
+    const change = { before: previous, after: node };
+    if (previous.type !== node.type) {
+      diff.retypedNodes.push(change);
+    }
+    if (previous.data.name !== node.data.name) {
+      diff.renamedNodes.push(change);
+    }
+    if (previous.position.x !== node.position.x || previous.position.y !== node.position.y) {
+      diff.movedNodes.push(change);
+    }
+    if (
+      previous.type === node.type &&
+      !sameProperties(
+        pickDeclaredProperties(previous.type, previous.data.properties),
+        pickDeclaredProperties(node.type, node.data.properties)
+      )
+    ) {
+      diff.updatedNodes.push(change);
+    }
+  });
+  diff.removedNodes = before.nodes.filter((node) => !afterIds.has(node.id));
+
+  const beforeRelationships = toRelationships(before);
+  const afterRelationships = toRelationships(after);
+  afterRelationships.forEach((relationship, id) => {
+    const previous = beforeRelationships.get(id);
+    if (!previous) {
+      diff.addedRelationships.push(relationship);
+    } else if (previous.type !== relationship.type || previous.start !== relationship.start || previous.end !== relationship.end) {
+      diff.retypedRelationships.push({ before: previous, after: relationship });
+    } else if (!sameProperties(previous.properties, relationship.properties)) {
+      diff.updatedRelationships.push({ before: previous, after: relationship });
+    }
+  });
+  beforeRelationships.forEach((relationship, id) => {
+    if (!afterRelationships.has(id)) {
+      diff.removedRelationships.push(relationship);
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * True when the graph is unchanged. Moves alone do not count, since they do not touch the graph.
+ */
+export const isGraphUnchanged = (diff: CanvasDiff): boolean =>
+  Object.entries(diff).every(([key, changes]) => key === 'movedNodes' || changes.length === 0);
@@ -0,0 +1,163 @@
+import type { CanvasState } from '../models/CanvasModels';
+import {
+  getEntityDefinition,
+  getRelationshipDefinition,
+  type EntityPropertyDefinition,
+  type EntityTypeDefinition,
+} from '../models/entityRegistry';
+import { pickDeclaredProperties, pickRelationshipProperties } from '../models/entityProperties';
+import { toGraphCanvas } from './entityAliases';
+import { relationshipInstances, resolveEdgeRelationship } from './relationshipInference';
+
+/**
+ * Canvas-to-Cypher generator.
+ *
+ * Turns the canvas state into parameterized Cypher statements that MERGE every entity by its
+ * stable canvas id (stored as `ui_id`) and every inferred (or overridden) relationship between them,
+ * along with their declared properties. A bidirectional connector yields a relationship each way.
+ * Aliases are collapsed into their entities and group nodes are expanded first, so each entity
+ * becomes exactly one Neo4j node and each group member its own node.
+ * Running the script repeatedly is idempotent.
+ */
+
+export interface CypherStatement {
+  query: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Returns the Neo4j label for a canvas node type, or undefined for unknown types.
+ */
+export const labelForNodeType = (type: string | undefined): string | undefined => getEntityDefinition(type)?.neo4jLabel;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Quotes a label, relationship type or map key with backticks when it is not a plain identifier.
+ */
+export const quoteIdentifier = (name: string): string =>
+  IDENTIFIER.test(name) ? name : `\`${name.replace(/`/g, '``')}\``;
+
+// Declared properties are always assigned, so clearing a value on the canvas removes it from the graph.
+// Dates are stored as Neo4j dates rather than strings.
+export const propertyAssignment = (variable: string) => ({ key, type }: EntityPropertyDefinition): string => {
+  const value = `row.properties.${quoteIdentifier(key)}`;
+  return `${variable}.${quoteIdentifier(key)} = ${type === 'date' ? `date(${value})` : value}`;
+};
+
+/**
+ * Generates one statement per node label and one per (relationship type, start label, end label) group.
+ * Labels and relationship types cannot be parameterized in Cypher, so rows are batched per group
+ * and passed through `UNWIND $rows`.
+ */
+export const generateCypher = (canvas: CanvasState): CypherStatement[] => {
+  const state = toGraphCanvas(canvas);
+  const statements: CypherStatement[] = [];
+  const labelsById = new Map<string, string>();
+
+  const nodeRows = new Map<string, { definition: EntityTypeDefinition; rows: Record<string, unknown>[] }>();
+  state.nodes.forEach((node) => {
+    const definition = getEntityDefinition(node.type);
+    if (!definition) {
+      return;
+    }
+    labelsById.set(node.id, definition.neo4jLabel);
+    const group = nodeRows.get(definition.neo4jLabel) ?? { definition, rows: [] };
+    group.rows.push({
+      ui_id: node.id,
+      name: node.data.name,
+      properties: pickDeclaredProperties(node.type, node.data.properties),
+    });
+    nodeRows.set(definition.neo4jLabel, group);
+  });
+
+  nodeRows.forEach(({ definition, rows }) => {
+    statements.push({
+      query:
+        `UNWIND $rows AS row\n` +
+        `MERGE (n:${quoteIdentifier(definition.neo4jLabel)} {ui_id: row.ui_id})\n` +
+        `SET ${['n.name = row.name', ...definition.properties.map(propertyAssignment('n'))].join(', ')}`,
+      params: { rows },
+    });
+  });
+
+  const relationshipRows = new Map<string, { type: string; startLabel: string; endLabel: string; rows: Record<string, unknown>[] }>();
+  state.edges.forEach((edge) => {
+    const relationship = resolveEdgeRelationship(edge, state.nodes);
+    if (!relationship) {
+      return;
+    }
+    relationshipInstances(edge, relationship).forEach(({ id, start, end }) => {
+      const startLabel = labelsById.get(start);
+      const endLabel = labelsById.get(end);
+      if (!startLabel || !endLabel) {
+        return;
+      }
+      const key = `${relationship.relationshipType}:${startLabel}:${endLabel}`;
+      const group = relationshipRows.get(key) ?? { type: relationship.relationshipType, startLabel, endLabel, rows: [] };
+      group.rows.push({
+        ui_id: id,
+        start,
+        end,
+        properties: pickRelationshipProperties(relationship.relationshipType, relationship.properties),
+      });
+      relationshipRows.set(key, group);
+    });
+  });
+
+  relationshipRows.forEach(({ type, startLabel, endLabel, rows }) => {
+    const assignments = (getRelationshipDefinition(type)?.properties ?? []).map(propertyAssignment('r'));
+    statements.push({
+      query:
+        `UNWIND $rows AS row\n` +
+        `MATCH (a:${quoteIdentifier(startLabel)} {ui_id: row.start})\n` +
+        `MATCH (b:${quoteIdentifier(endLabel)} {ui_id: row.end})\n` +
+        `MERGE (a)-[r:${quoteIdentifier(type)} {ui_id: row.ui_id}]->(b)` +
+        (assignments.length > 0 ? `\nSET ${assignments.join(', ')}` : ''),
+      params: { rows },
+    });
+  });
+
+  return statements;
+};
+
+/**
+ * Renders a JavaScript value as a Cypher literal (used for `:param` commands in Neo4j Browser).
+ */
+export const toCypherLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toCypherLiteral).join(', ')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).map(
+    ([key, entry]) => `${quoteIdentifier(key)}: ${toCypherLiteral(entry)}`
+  );
+  return `{${entries.join(', ')}}`;
+};
+
+/**
+ * Renders statements as a script that can be pasted into Neo4j Browser.
+ * Browser parameters are global, so each statement's `$rows` is renamed to a unique parameter.
+ */
+export const toCypherScript = (statements: CypherStatement[]): string =>
+  statements
+    .map((statement, index) => {
+      const paramLines = Object.entries(statement.params).map(([name, value]) => {
+        const uniqueName = `${name}${index + 1}`;
+        return { line: `:param ${uniqueName} => ${toCypherLiteral(value)}`, name, uniqueName };
+      });
+      const query = paramLines.reduce(
+        (q, { name, uniqueName }) => q.replace(new RegExp(`\\$${name}\\b`, 'g'), () => `$${uniqueName}`),
+        statement.query
+      );
+      return [...paramLines.map((p) => p.line), `${query};`].join('\n');
+    })
+    .join('\n\n');
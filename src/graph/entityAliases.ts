@@ -0,0 +1,141 @@
+import type { CanvasState, EntityNode } from '../models/CanvasModels';
+import { expandGroups } from './entityGroups';
+
+/**
+ * Reference (alias) nodes.
+ *
+ * An alias is a second card for an entity that is already on the canvas, e.g. a supplier that
+ * serves two companies far apart. It carries `aliasOf`, the id of the canonical entity, and
+ * only has a position of its own: connectors drawn to an alias are relationships of the canonical
+ * entity, and graph generation collapses every alias into the canonical entity's single node.
+ */
+
+export type AliasResult =
+  | { ok: true; state: CanvasState; aliasId: string }
+  | { ok: false; reason: string };
+
+// Where a new alias is placed, relative to its entity
+const ALIAS_OFFSET = { x: 60, y: 140 };
+
+export const isAliasNode = (node: EntityNode): boolean => node.data.aliasOf !== undefined;
+
+/**
+ * Returns the canonical entity of an alias, or undefined when the alias is broken: its entity is
+ * missing, of another type, or itself an alias.
+ */
+export const canonicalNode = (nodesById: Map<string, EntityNode>, alias: EntityNode): EntityNode | undefined => {
+  const canonical = alias.data.aliasOf !== undefined ? nodesById.get(alias.data.aliasOf) : undefined;
+  return canonical && canonical.type === alias.type && !isAliasNode(canonical) ? canonical : undefined;
+};
+
+/**
+ * Removes every alias, re-pointing its connectors at the canonical entity. Broken aliases stay,
+ * as ordinary entities, so nothing drawn on the canvas is lost.
+ */
+export const resolveAliases = (state: CanvasState): CanvasState => {
+  if (!state.nodes.some(isAliasNode)) {
+    return state;
+  }
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+  const canonicalIds = new Map<string, string>();
+  state.nodes.forEach((node) => {
+    const canonical = isAliasNode(node) ? canonicalNode(nodesById, node) : undefined;
+    if (canonical) {
+      canonicalIds.set(node.id, canonical.id);
+    }
+  });
+  return {
+    nodes: state.nodes.filter((node) => !canonicalIds.has(node.id)),
+    edges: state.edges.map((edge) =>
+      canonicalIds.has(edge.source) || canonicalIds.has(edge.target)
+        ? { ...edge, source: canonicalIds.get(edge.source) ?? edge.source, target: canonicalIds.get(edge.target) ?? edge.target }
+        : edge
+    ),
+  };
+};
+
+/**
+ * The canvas as the graph it generates: aliases collapsed into their entities, then groups
+ * expanded into their members.
+ */
+export const toGraphCanvas = (state: CanvasState): CanvasState => expandGroups(resolveAliases(state));
+
+/**
+ * Adds an alias of an entity next to it. Aliasing an alias refers to the same canonical entity.
+ */
+export const createAlias = (state: CanvasState, id: string, aliasId: string = crypto.randomUUID()): AliasResult => {
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+  const node = nodesById.get(id);
+  const canonical = node && (isAliasNode(node) ? canonicalNode(nodesById, node) : node);
+  if (!node || !canonical) {
+    return { ok: false, reason: 'The entity to refer to is not on the canvas.' };
+  }
+  const alias: EntityNode = {
+    id: aliasId,
+    type: canonical.type,
+    position: { x: node.position.x + ALIAS_OFFSET.x, y: node.position.y + ALIAS_OFFSET.y },
+    selected: true,
+    data: { label: canonical.data.label, name: canonical.data.name, aliasOf: canonical.id },
+  };
+  return {
+    ok: true,
+    state: { nodes: [...state.nodes.map((other) => ({ ...other, selected: false })), alias], edges: state.edges },
+    aliasId,
+  };
+};
+
+const nameKey = (node: EntityNode): string => `${node.type}:${node.data.name.trim().toLowerCase()}`;
+
+/**
+ * Finds sets of named entities of the same type with the same name (ignoring case and surrounding
+ * spaces), which would become separate Neo4j nodes. Aliases and groups are not considered.
+ */
+export const findDuplicates = (state: CanvasState): EntityNode[][] => {
+  const byName = new Map<string, EntityNode[]>();
+  state.nodes.forEach((node) => {
+    if (node.data.name.trim() && !isAliasNode(node) && !node.data.group) {
+      byName.set(nameKey(node), [...(byName.get(nameKey(node)) ?? []), node]);
+    }
+  });
+  return [...byName.values()].filter((duplicates) => duplicates.length > 1);
+};
+
+/**
+ * Merges each set of duplicates into its first entity: the others become aliases of it, keeping
+ * their place and connectors on the canvas, and any property the first entity lacks is taken
+ * from them. Aliases of a merged entity are re-pointed at the surviving one. Connectors between
+ * entities of the same set would become relationships of the entity with itself, so they are
+ * removed and counted.
+ */
+export const mergeDuplicates = (state: CanvasState): { state: CanvasState; merged: number; droppedConnectors: number } => {
+  const duplicateSets = findDuplicates(state);
+  const canonicalIds = new Map<string, string>();
+  const properties = new Map<string, EntityNode['data']['properties']>();
+  duplicateSets.forEach(([canonical, ...duplicates]) => {
+    duplicates.forEach((duplicate) => canonicalIds.set(duplicate.id, canonical.id));
+    // Earlier entities win, so the canonical entity's own values are never overwritten
+    properties.set(
+      canonical.id,
+      [canonical, ...duplicates].reduceRight((merged, node) => ({ ...merged, ...node.data.properties }), {})
+    );
+  });
+
+  const nodes = state.nodes.map((node): EntityNode => {
+    const canonicalId = canonicalIds.get(node.id) ?? canonicalIds.get(node.data.aliasOf ?? '');
+    if (canonicalId) {
+      const canonical = state.nodes.find((other) => other.id === canonicalId)!;
+      return { ...node, data: { label: node.data.label, name: canonical.data.name, aliasOf: canonicalId } };
+    }
+    return properties.has(node.id) ? { ...node, data: { ...node.data, properties: properties.get(node.id) } } : node;
+  });
+
+  // The entity each card stands for, before and after merging
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+  const entityBefore = (id: string) => nodesById.get(id)?.data.aliasOf ?? id;
+  const entityAfter = (id: string) => canonicalIds.get(entityBefore(id)) ?? entityBefore(id);
+  const edges = state.edges.filter(
+    (edge) => entityAfter(edge.source) !== entityAfter(edge.target) || entityBefore(edge.source) === entityBefore(edge.target)
+  );
+
+  return { state: { nodes, edges }, merged: duplicateSets.length, droppedConnectors: state.edges.length - edges.length };
+};
@@ -0,0 +1,186 @@
+import type {
+  CanvasState,
+  EntityGroupMember,
+  EntityNode,
+  RelationshipEdge,
+} from '../models/CanvasModels';
+
+/**
+ * Group (abstraction) nodes.
+ *
+ * A group node is an ordinary entity node whose data carries a list of members. It keeps the
+ * canvas uncluttered (README Approach 2 cons): "Employees of Acme" is one card on the canvas,
+ * and each connector to it stands for one relationship per member. Groups are expanded into
+ * individual entities and relationships when the graph is generated.
+ */
+
+export type GroupResult =
+  | { ok: true; state: CanvasState; groupId: string }
+  | { ok: false; reason: string };
+
+// Layout used when a group is split back into individual entities
+const UNGROUP_COLUMNS = 4;
+const UNGROUP_SPACING = { x: 280, y: 180 };
+
+export const isGroupNode = (node: EntityNode): boolean => node.data.group !== undefined;
+
+// Members of a regrouped group keep its shared properties as their own overrides
+const membersOf = (node: EntityNode): EntityGroupMember[] =>
+  node.data.group?.members.map((member) => ({ ...member, properties: { ...node.data.properties, ...member.properties } })) ?? [
+    { id: node.id, name: node.data.name, properties: node.data.properties },
+  ];
+
+/**
+ * Ids of the entities a canvas node stands for: its members for a group, the node itself otherwise.
+ */
+export const expandedIds = (nodesById: Map<string, EntityNode>, id: string): string[] => {
+  const node = nodesById.get(id);
+  return node?.data.group ? node.data.group.members.map((member) => member.id) : [id];
+};
+
+/**
+ * Replaces every group node with one entity per member, and every connector touching a group
+ * with one connector per member (per pair of members for group-to-group connectors).
+ * Members inherit the group's shared properties unless they set their own.
+ */
+export const expandGroups = (state: CanvasState): CanvasState => {
+  if (!state.nodes.some(isGroupNode)) {
+    return state;
+  }
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+
+  const nodes = state.nodes.flatMap((node): EntityNode[] =>
+    node.data.group
+      ? node.data.group.members.map((member) => ({
+          id: member.id,
+          type: node.type,
+          position: node.position,
+          data: {
+            label: node.data.label,
+            name: member.name,
+            properties: { ...node.data.properties, ...member.properties },
+          },
+        }))
+      : [node]
+  );
+
+  const edges = state.edges.flatMap((edge) => expandConnector(nodesById, edge));
+
+  return { nodes, edges };
+};
+
+/**
+ * The connectors one connector stands for once groups are expanded: itself when neither end is a
+ * group, otherwise one per member (per pair of members for group-to-group connectors).
+ */
+export const expandConnector = <E extends Pick<RelationshipEdge, 'id' | 'source' | 'target'>>(
+  nodesById: Map<string, EntityNode>,
+  edge: E
+): E[] => {
+  const sources = expandedIds(nodesById, edge.source);
+  const targets = expandedIds(nodesById, edge.target);
+  if (sources.length === 1 && targets.length === 1 && sources[0] === edge.source && targets[0] === edge.target) {
+    return [edge];
+  }
+  return sources.flatMap((source) => targets.map((target) => ({ ...edge, id: `${edge.id}:${source}:${target}`, source, target })));
+};
+
+// Two connectors are the same once re-pointed at the group when they join the same ends the same way
+const connectorKey = (edge: RelationshipEdge): string =>
+  `${edge.source}->${edge.target}:${edge.data?.relationshipType ?? ''}:${edge.data?.direction ?? ''}`;
+
+/**
+ * Collapses the given entities (or groups) of one type into a single group node placed at their
+ * centre. Their connectors are re-pointed at the group, merging duplicates.
+ */
+export const groupNodes = (state: CanvasState, nodeIds: string[], groupId: string = crypto.randomUUID()): GroupResult => {
+  const selected = state.nodes.filter((node) => nodeIds.includes(node.id));
+  if (selected.length < 2) {
+    return { ok: false, reason: 'Select at least two entities to group.' };
+  }
+  const [first] = selected;
+  if (selected.some((node) => node.type !== first.type)) {
+    return { ok: false, reason: 'Only entities of the same type can be grouped.' };
+  }
+  const selectedIds = new Set(selected.map((node) => node.id));
+  if (state.nodes.some((node) => node.data.aliasOf !== undefined && (selectedIds.has(node.id) || selectedIds.has(node.data.aliasOf)))) {
+    return { ok: false, reason: 'References, and entities that have references, cannot be grouped.' };
+  }
+  if (state.edges.some((edge) => selectedIds.has(edge.source) && selectedIds.has(edge.target))) {
+    return { ok: false, reason: 'Entities that are connected to each other cannot be grouped.' };
+  }
+  const members = selected.flatMap(membersOf);
+  if (members.length === 0) {
+    return { ok: false, reason: 'The selected groups have no members to group.' };
+  }
+
+  const position = {
+    x: selected.reduce((sum, node) => sum + node.position.x, 0) / selected.length,
+    y: selected.reduce((sum, node) => sum + node.position.y, 0) / selected.length,
+  };
+  const group: EntityNode = {
+    id: groupId,
+    type: first.type,
+    position,
+    selected: true,
+    data: {
+      label: first.data.label,
+      name: `${first.data.label} group`,
+      properties: {},
+      group: { members, expanded: false },
+    },
+  };
+
+  const seen = new Set<string>();
+  const edges = state.edges
+    .map((edge) => ({
+      ...edge,
+      source: selectedIds.has(edge.source) ? groupId : edge.source,
+      target: selectedIds.has(edge.target) ? groupId : edge.target,
+    }))
+    .filter((edge) => {
+      const key = connectorKey(edge);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    ok: true,
+    state: { nodes: [...state.nodes.filter((node) => !selectedIds.has(node.id)), group], edges },
+    groupId,
+  };
+};
+
+/**
+ * Splits a group node back into individual entities laid out below it. Each connector to the
+ * group is copied to every member.
+ */
+export const ungroupNode = (state: CanvasState, groupId: string): CanvasState => {
+  const group = state.nodes.find((node) => node.id === groupId);
+  if (!group?.data.group) {
+    return state;
+  }
+
+  const members = group.data.group.members.map((member, index): EntityNode => ({
+    id: member.id,
+    type: group.type,
+    position: {
+      x: group.position.x + (index % UNGROUP_COLUMNS) * UNGROUP_SPACING.x,
+      y: group.position.y + Math.floor(index / UNGROUP_COLUMNS) * UNGROUP_SPACING.y,
+    },
+    data: {
+      label: group.data.label,
+      name: member.name,
+      properties: { ...group.data.properties, ...member.properties },
+    },
+  }));
+
+  // Same ids as the expanded connectors, so a sync keeps the stored relationships
+  const groupById = new Map([[groupId, group]]);
+  const edges = state.edges.flatMap((edge) => expandConnector(groupById, edge));
+
+  return { nodes: [...state.nodes.filter((node) => node.id !== groupId), ...members], edges };
+};
@@ -0,0 +1,102 @@
+import { getEntityDefinition, UNKNOWN_ENTITY_COLOR } from '../models/entityRegistry';
+import { formatPropertyValue, type EntityProperties } from '../models/entityProperties';
+import type { InferredGraph } from './inferredGraph';
+
+/**
+ * Text exports of the inferred graph for other tools: Mermaid flowcharts (Markdown docs),
+ * GraphML (yEd, Gephi) and Graphviz DOT. Each node carries its label and name, and is coloured
+ * like its entity type on the canvas.
+ */
+
+const colorOf = (type: string): string => (getEntityDefinition(type)?.color ?? UNKNOWN_ENTITY_COLOR).hex;
+
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Mermaid labels are HTML, with its own escapes for characters that would end the label
+const mermaidText = (text: string): string => text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+export const toMermaid = (graph: InferredGraph): string => {
+  // Mermaid only allows simple ids, so graph ids are replaced by their position in the graph
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index + 1}`]));
+  const types = [...new Set(graph.nodes.map((node) => node.type))];
+  return [
+    'flowchart LR',
+    ...graph.nodes.map((node) => `  ${ids.get(node.id)}["${mermaidText(node.name || '(unnamed)')}<br/>:${node.label}"]`),
+    ...graph.relationships
+      .filter((relationship) => ids.has(relationship.start) && ids.has(relationship.end))
+      .map((relationship) => `  ${ids.get(relationship.start)} -->|${relationship.type}| ${ids.get(relationship.end)}`),
+    ...types.map((type) => `  classDef ${type} fill:${colorOf(type)},stroke:${colorOf(type)},color:#fff`),
+    ...types.map((type) =>
+      `  class ${graph.nodes.filter((node) => node.type === type).map((node) => ids.get(node.id)).join(',')} ${type}`
+    ),
+  ].join('\n');
+};
+
+// GraphML declares every attribute up front, with a type taken from its values
+const graphMLKeys = (prefix: string, properties: EntityProperties[]): { id: string; name: string; type: string }[] => {
+  const types = new Map<string, string>();
+  properties.forEach((values) =>
+    Object.entries(values).forEach(([key, value]) => {
+      const type = typeof value === 'number' ? 'double' : 'string';
+      types.set(key, types.get(key) === undefined || types.get(key) === type ? type : 'string');
+    })
+  );
+  return [...types].map(([name, type]) => ({ id: `${prefix}_${name}`, name, type }));
+};
+
+const graphMLData = (prefix: string, properties: EntityProperties): string[] =>
+  Object.entries(properties).map(
+    ([key, value]) => `      <data key="${escapeXml(`${prefix}_${key}`)}">${escapeXml(formatPropertyValue(value))}</data>`
+  );
+
+export const toGraphML = (graph: InferredGraph): string => {
+  const nodeKeys = graphMLKeys('n', graph.nodes.map((node) => node.properties));
+  const edgeKeys = graphMLKeys('e', graph.relationships.map((relationship) => relationship.properties));
+  const key = (id: string, forElement: string, name: string, type: string) =>
+    `  <key id="${escapeXml(id)}" for="${forElement}" attr.name="${escapeXml(name)}" attr.type="${type}"/>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    key('label', 'node', 'label', 'string'),
+    key('name', 'node', 'name', 'string'),
+    key('color', 'node', 'color', 'string'),
+    ...nodeKeys.map(({ id, name, type }) => key(id, 'node', name, type)),
+    key('type', 'edge', 'type', 'string'),
+    ...edgeKeys.map(({ id, name, type }) => key(id, 'edge', name, type)),
+    '  <graph id="G" edgedefault="directed">',
+    ...graph.nodes.flatMap((node) => [
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="label">${escapeXml(node.label)}</data>`,
+      `      <data key="name">${escapeXml(node.name)}</data>`,
+      `      <data key="color">${colorOf(node.type)}</data>`,
+      ...graphMLData('n', node.properties),
+      '    </node>',
+    ]),
+    ...graph.relationships.flatMap((relationship) => [
+      `    <edge id="${escapeXml(relationship.id)}" source="${escapeXml(relationship.start)}" target="${escapeXml(relationship.end)}">`,
+      `      <data key="type">${escapeXml(relationship.type)}</data>`,
+      ...graphMLData('e', relationship.properties),
+      '    </edge>',
+    ]),
+    '  </graph>',
+    '</graphml>',
+  ].join('\n');
+};
+
+const dotString = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export const toDot = (graph: InferredGraph, name: string = 'Business model'): string =>
+  [
+    `digraph ${dotString(name)} {`,
+    '  rankdir=LR;',
+    '  node [shape=ellipse, style=filled, fontcolor=white, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    ...graph.nodes.map(
+      (node) => `  ${dotString(node.id)} [label=${dotString(`${node.name || '(unnamed)'}\n:${node.label}`)}, fillcolor="${colorOf(node.type)}"];`
+    ),
+    ...graph.relationships.map(
+      (relationship) => `  ${dotString(relationship.start)} -> ${dotString(relationship.end)} [label=${dotString(relationship.type)}];`
+    ),
+    '}',
+  ].join('\n');
@@ -0,0 +1,81 @@
+import type { CanvasState } from '../models/CanvasModels';
+import { labelForNodeType } from './cypherGenerator';
+import { pickDeclaredProperties, pickRelationshipProperties, type EntityProperties } from '../models/entityProperties';
+import { resolveAliases } from './entityAliases';
+import { expandedIds } from './entityGroups';
+import { relationshipInstances, resolveEdgeRelationship } from './relationshipInference';
+
+/**
+ * The Neo4j graph the canvas stands for, as `generateCypher` would write it, with each graph
+ * element linked back to the canvas element it comes from. Aliases are collapsed into their
+ * entity, a group node yields one graph node per member (and each of its connectors one
+ * relationship per member), and a bidirectional connector yields a relationship each way.
+ */
+
+export interface InferredGraphNode {
+  id: string;
+  canvasId: string;
+  label: string;
+  // Entity type, used for colouring
+  type: string;
+  name: string;
+  properties: EntityProperties;
+}
+
+export interface InferredGraphRelationship {
+  id: string;
+  canvasId: string;
+  type: string;
+  start: string;
+  end: string;
+  properties: EntityProperties;
+}
+
+export interface InferredGraph {
+  nodes: InferredGraphNode[];
+  relationships: InferredGraphRelationship[];
+}
+
+export const inferGraph = (canvas: CanvasState): InferredGraph => {
+  const state = resolveAliases(canvas);
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+
+  const nodes = state.nodes.flatMap((node): InferredGraphNode[] => {
+    const label = labelForNodeType(node.type);
+    if (!label || !node.type) {
+      return [];
+    }
+    const type = node.type;
+    const members = node.data.group?.members ?? [{ id: node.id, name: node.data.name, properties: {} }];
+    return members.map((member) => ({
+      id: member.id,
+      canvasId: node.id,
+      label,
+      type,
+      name: member.name,
+      properties: pickDeclaredProperties(type, { ...node.data.properties, ...member.properties }),
+    }));
+  });
+
+  const relationships = state.edges.flatMap((edge): InferredGraphRelationship[] => {
+    const relationship = resolveEdgeRelationship(edge, state.nodes);
+    if (!relationship) {
+      return [];
+    }
+    const properties = pickRelationshipProperties(relationship.relationshipType, relationship.properties);
+    return expandedIds(nodesById, edge.source).flatMap((source) =>
+      expandedIds(nodesById, edge.target).flatMap((target) => {
+        // Same ids as the expanded connectors, i.e. the `ui_id` the relationship is written with
+        const id = source === edge.source && target === edge.target ? edge.id : `${edge.id}:${source}:${target}`;
+        return relationshipInstances({ id, source, target }, relationship).map((instance) => ({
+          ...instance,
+          canvasId: edge.id,
+          type: relationship.relationshipType,
+          properties,
+        }));
+      })
+    );
+  });
+
+  return { nodes, relationships };
+};
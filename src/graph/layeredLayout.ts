@@ -0,0 +1,145 @@
+/**
+ * Layered (Sugiyama-style) layout for graphs that have no stored positions.
+ *
+ * Nodes are placed in columns by the longest path that leads to them, so every relationship runs
+ * left to right (apart from those closing a cycle). Within a column, nodes are ordered by the
+ * given comparison (e.g. entity type, so entities of one type stay together), then refined by
+ * the average row of their neighbours to reduce crossings.
+ */
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+}
+
+export interface LayeredLayoutOptions {
+  origin?: { x: number; y: number };
+  columnSpacing?: number;
+  rowSpacing?: number;
+  // Initial order of nodes within a column
+  compare?: (a: string, b: string) => number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const DEFAULT_COLUMN_SPACING = 320;
+const DEFAULT_ROW_SPACING = 160;
+
+// Drops self-loops, links to unknown nodes, and the links that close a cycle (found by DFS)
+const acyclicLinks = (ids: string[], links: LayoutLink[]): LayoutLink[] => {
+  const known = new Set(ids);
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  links.forEach(({ source, target }) => {
+    if (source !== target && known.has(source) && known.has(target)) {
+      outgoing.get(source)!.push(target);
+    }
+  });
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const kept: LayoutLink[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing.get(id)!.forEach((target) => {
+      if (state.get(target) === 'visiting') {
+        return;
+      }
+      kept.push({ source: id, target });
+      if (!state.has(target)) {
+        visit(target);
+      }
+    });
+    state.set(id, 'done');
+  };
+  ids.forEach((id) => {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  });
+  return kept;
+};
+
+// Longest-path layering: sources go in column 0, every other node one column after its furthest predecessor
+const assignLayers = (ids: string[], links: LayoutLink[]): Map<string, number> => {
+  const incoming = new Map<string, number>(ids.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  links.forEach(({ source, target }) => {
+    incoming.set(target, incoming.get(target)! + 1);
+    outgoing.get(source)!.push(target);
+  });
+
+  const layers = new Map<string, number>();
+  const queue = ids.filter((id) => incoming.get(id) === 0);
+  queue.forEach((id) => layers.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach((target) => {
+      layers.set(target, Math.max(layers.get(target) ?? 0, layers.get(id)! + 1));
+      incoming.set(target, incoming.get(target)! - 1);
+      if (incoming.get(target) === 0) {
+        queue.push(target);
+      }
+    });
+  }
+  return layers;
+};
+
+const average = (values: number[]): number | undefined =>
+  values.length === 0 ? undefined : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Computes a position for every id. Links may reference unknown ids; those are ignored.
+ */
+export const layeredLayout = (
+  ids: string[],
+  links: LayoutLink[],
+  { origin = { x: 0, y: 0 }, columnSpacing = DEFAULT_COLUMN_SPACING, rowSpacing = DEFAULT_ROW_SPACING, compare }: LayeredLayoutOptions = {},
+): Map<string, Point> => {
+  const acyclic = acyclicLinks(ids, links);
+  const layers = assignLayers(ids, acyclic);
+
+  const columns: string[][] = [];
+  ids.forEach((id) => {
+    const layer = layers.get(id) ?? 0;
+    (columns[layer] ??= []).push(id);
+  });
+  columns.forEach((column) => column.sort(compare));
+
+  const neighbours = new Map<string, string[]>(ids.map((id) => [id, []]));
+  acyclic.forEach(({ source, target }) => {
+    neighbours.get(source)!.push(target);
+    neighbours.get(target)!.push(source);
+  });
+
+  // Barycenter ordering: a sweep left to right, then one right to left. The initial order
+  // breaks ties, since Array.prototype.sort is stable.
+  const rowOf = new Map<string, number>();
+  const indexRows = () => columns.forEach((column) => column.forEach((id, row) => rowOf.set(id, row)));
+  indexRows();
+  const reorder = (columnIndex: number, towards: number) => {
+    const column = columns[columnIndex];
+    const keys = new Map(
+      column.map((id) => [
+        id,
+        average(neighbours.get(id)!.filter((other) => layers.get(other) === towards).map((other) => rowOf.get(other)!)),
+      ])
+    );
+    column.sort((a, b) => (keys.get(a) ?? rowOf.get(a)!) - (keys.get(b) ?? rowOf.get(b)!));
+    column.forEach((id, row) => rowOf.set(id, row));
+  };
+  for (let index = 1; index < columns.length; index++) reorder(index, index - 1);
+  for (let index = columns.length - 2; index >= 0; index--) reorder(index, index + 1);
+
+  // Columns are centred vertically on the tallest one
+  const tallest = Math.max(0, ...columns.map((column) => column.length));
+  const positions = new Map<string, Point>();
+  columns.forEach((column, layer) => {
+    const offset = ((tallest - column.length) * rowSpacing) / 2;
+    column.forEach((id, row) => {
+      positions.set(id, { x: origin.x + layer * columnSpacing, y: origin.y + offset + row * rowSpacing });
+    });
+  });
+  return positions;
+};
@@ -0,0 +1,269 @@
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import { getRelationshipDefinition } from '../models/entityRegistry';
+import { validateEntityProperties, validateProperties } from '../models/entityProperties';
+import { canonicalNode, isAliasNode, resolveAliases } from './entityAliases';
+import { allowedRelationships, canBeBidirectional, relationshipInstances, type RelationshipRule } from './relationshipInference';
+
+/**
+ * Model validation for the canvas.
+ *
+ * Errors describe models that cannot be written to Neo4j meaningfully and block saving;
+ * warnings describe models that are probably wrong but can still be saved. The canvas is checked
+ * with aliases collapsed into their entities, as the graph will be written.
+ * Like relationship inference, this module is pure so it can run on every canvas change.
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueCode =
+  | 'blank-name'
+  | 'empty-group'
+  | 'duplicate-name'
+  | 'orphan'
+  | 'invalid-property'
+  | 'disallowed-connection'
+  | 'self-loop'
+  | 'parallel-connection'
+  | 'broken-reference';
+
+export interface ValidationIssue {
+  // Stable across re-validation, so the panel can key its rows on it
+  id: string;
+  code: ValidationIssueCode;
+  severity: ValidationSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+const entityLabel = (node: EntityNode): string =>
+  node.data.name.trim() ? `"${node.data.name.trim()}"` : `Unnamed ${node.data.label}`;
+
+const validateNodes = (nodes: EntityNode[], edges: RelationshipEdge[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const connected = new Set<string>();
+  edges.forEach((edge) => connected.add(edge.source).add(edge.target));
+
+  nodes.forEach((node) => {
+    if (!node.data.name.trim()) {
+      issues.push({
+        id: `blank-name:${node.id}`,
+        code: 'blank-name',
+        severity: 'error',
+        message: `An unnamed ${node.data.label} entity needs a name.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    }
+    // A group stands for its members only, so one without members is not in the graph at all
+    if (node.data.group && node.data.group.members.length === 0) {
+      issues.push({
+        id: `empty-group:${node.id}`,
+        code: 'empty-group',
+        severity: 'error',
+        message: `${entityLabel(node)} is a group without members. Add members or delete it.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    }
+    const unnamedMembers = node.data.group?.members.filter((member) => !member.name.trim()).length ?? 0;
+    if (unnamedMembers > 0) {
+      issues.push({
+        id: `blank-member-name:${node.id}`,
+        code: 'blank-name',
+        severity: 'error',
+        message: `${entityLabel(node)} has ${unnamedMembers} unnamed ${unnamedMembers === 1 ? 'member' : 'members'}.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    }
+    if (!connected.has(node.id)) {
+      issues.push({
+        id: `orphan:${node.id}`,
+        code: 'orphan',
+        severity: 'warning',
+        message: `${entityLabel(node)} is not connected to anything.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    }
+    Object.entries(validateEntityProperties(node.type, node.data.properties)).forEach(([key, error]) => {
+      issues.push({
+        id: `invalid-property:${node.id}:${key}`,
+        code: 'invalid-property',
+        severity: 'error',
+        message: `${entityLabel(node)}: ${error}`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    });
+  });
+
+  // Names only need to be unique among entities of the same type. A group is saved as its
+  // members, so their names are checked rather than the group's own
+  const byName = new Map<string, { node: EntityNode; name: string }[]>();
+  nodes.forEach((node) => {
+    const names = node.data.group ? node.data.group.members.map((member) => member.name) : [node.data.name];
+    names.forEach((name) => {
+      const key = `${node.type}:${name.trim().toLowerCase()}`;
+      if (name.trim()) {
+        byName.set(key, [...(byName.get(key) ?? []), { node, name: name.trim() }]);
+      }
+    });
+  });
+  byName.forEach((duplicates, key) => {
+    if (duplicates.length > 1) {
+      const [{ node, name }] = duplicates;
+      // Only standalone entities can be merged; members have to be renamed instead
+      const mergeable = duplicates.every((duplicate) => !duplicate.node.data.group);
+      issues.push({
+        id: `duplicate-name:${key}`,
+        code: 'duplicate-name',
+        severity: 'warning',
+        message: mergeable
+          ? `${duplicates.length} ${node.data.label} entities are named "${name}". Merge duplicates to make them one entity.`
+          : `${duplicates.length} ${node.data.label} entities, including group members, are named "${name}". Rename them to keep them apart.`,
+        nodeIds: [...new Set(duplicates.map((duplicate) => duplicate.node.id))],
+        edgeIds: [],
+      });
+    }
+  });
+
+  return issues;
+};
+
+const validateEdges = (nodes: EntityNode[], edges: RelationshipEdge[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  // Allowed relationships by pair of entity types; large diagrams have few pairs but many connectors
+  const rulesByTypes = new Map<string, RelationshipRule[]>();
+  const rulesFor = (sourceType: string, targetType: string): RelationshipRule[] => {
+    const key = `${sourceType}->${targetType}`;
+    let rules = rulesByTypes.get(key);
+    if (!rules) {
+      rules = allowedRelationships(sourceType, targetType);
+      rulesByTypes.set(key, rules);
+    }
+    return rules;
+  };
+
+  edges.forEach((edge) => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) {
+      return;
+    }
+    const between = () => `${entityLabel(source)} and ${entityLabel(target)}`;
+
+    if (edge.source === edge.target) {
+      issues.push({
+        id: `self-loop:${edge.id}`,
+        code: 'self-loop',
+        severity: 'error',
+        message: `${entityLabel(source)} is connected to itself.`,
+        nodeIds: [source.id],
+        edgeIds: [edge.id],
+      });
+      return;
+    }
+
+    const allowed = rulesFor(source.type ?? '', target.type ?? '');
+    const relationshipType = edge.data?.relationshipType;
+    if (!allowed.some((rule) => rule.relationshipType === relationshipType && rule.direction === edge.data?.direction)) {
+      issues.push({
+        id: `disallowed-connection:${edge.id}`,
+        code: 'disallowed-connection',
+        severity: 'error',
+        message: relationshipType
+          ? `${relationshipType} is not allowed between ${between()}.`
+          : `No relationship is allowed between ${between()}.`,
+        nodeIds: [source.id, target.id],
+        edgeIds: [edge.id],
+      });
+    } else if (edge.data?.bidirectional && !canBeBidirectional(source.type ?? '', target.type ?? '', relationshipType ?? '')) {
+      issues.push({
+        id: `disallowed-connection:${edge.id}`,
+        code: 'disallowed-connection',
+        severity: 'error',
+        message: `${relationshipType} cannot run both ways between ${between()}.`,
+        nodeIds: [source.id, target.id],
+        edgeIds: [edge.id],
+      });
+    }
+
+    const definition = getRelationshipDefinition(relationshipType);
+    Object.entries(validateProperties(definition?.properties ?? [], edge.data?.properties)).forEach(([key, error]) => {
+      issues.push({
+        id: `invalid-property:${edge.id}:${key}`,
+        code: 'invalid-property',
+        severity: 'error',
+        message: `${relationshipType} between ${between()}: ${error}`,
+        nodeIds: [],
+        edgeIds: [edge.id],
+      });
+    });
+  });
+
+  // Connectors for the same relationship between the same entities, in the same graph direction,
+  // collapse into one relationship in Neo4j
+  const byEndpoints = new Map<string, RelationshipEdge[]>();
+  edges.forEach((edge) => {
+    if (edge.source === edge.target || !edge.data) {
+      return;
+    }
+    const { relationshipType } = edge.data;
+    relationshipInstances(edge, edge.data).forEach(({ start, end }) => {
+      const key = `${relationshipType}:${start}->${end}`;
+      const parallel = byEndpoints.get(key);
+      if (parallel) {
+        parallel.push(edge);
+      } else {
+        byEndpoints.set(key, [edge]);
+      }
+    });
+  });
+  byEndpoints.forEach((parallel, key) => {
+    const source = nodesById.get(parallel[0].source);
+    const target = nodesById.get(parallel[0].target);
+    if (parallel.length > 1 && source && target) {
+      issues.push({
+        id: `parallel-connection:${key}`,
+        code: 'parallel-connection',
+        severity: 'warning',
+        message: `${entityLabel(source)} and ${entityLabel(target)} have ${parallel.length} ${parallel[0].data?.relationshipType} connections.`,
+        nodeIds: [],
+        edgeIds: parallel.map((edge) => edge.id),
+      });
+    }
+  });
+
+  return issues;
+};
+
+// An alias whose entity is gone (or of another type) would be written as an entity of its own
+const validateAliases = (nodes: EntityNode[]): ValidationIssue[] => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  return nodes
+    .filter((node) => isAliasNode(node) && !canonicalNode(nodesById, node))
+    .map((node) => ({
+      id: `broken-reference:${node.id}`,
+      code: 'broken-reference',
+      severity: 'error',
+      message: `The reference to ${entityLabel(node)} no longer points to a ${node.data.label} entity.`,
+      nodeIds: [node.id],
+      edgeIds: [],
+    }));
+};
+
+/**
+ * Validates the whole canvas. Errors are listed before warnings.
+ */
+export const validateModel = (state: CanvasState): ValidationIssue[] => {
+  const { nodes, edges } = resolveAliases(state);
+  return [...validateAliases(state.nodes), ...validateNodes(nodes, edges), ...validateEdges(nodes, edges)].sort(
+    (a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning')
+  );
+};
+
+export const countBySeverity = (issues: ValidationIssue[], severity: ValidationSeverity): number =>
+  issues.filter((issue) => issue.severity === severity).length;
@@ -0,0 +1,333 @@
+import type { CanvasState } from '../models/CanvasModels';
+import { getEntityDefinition, type EntityPropertyDefinition } from '../models/entityRegistry';
+import type { EntityPropertyValue } from '../models/entityProperties';
+import { quoteIdentifier, type CypherStatement } from './cypherGenerator';
+import { relationshipEndpoints, resolveEdgeRelationship } from './relationshipInference';
+import type { InferredGraph, InferredGraphNode, InferredGraphRelationship } from './inferredGraph';
+
+/**
+ * Pattern queries over the model.
+ *
+ * A pattern is built from a selection on the canvas: every selected entity becomes a node
+ * variable of its label, every selected connector a relationship variable of its type. Filters
+ * on names and properties narrow it down, e.g. "companies that SUPPLIES a company named Acme".
+ * The same pattern is rendered as a Cypher MATCH query and evaluated in memory against the
+ * inferred graph, so results can be shown (and highlighted) without a database.
+ */
+
+export type FilterOperator = 'equals' | 'contains' | 'startsWith' | 'greaterThan' | 'lessThan';
+
+export interface PatternFilter {
+  id: string;
+  // 'name' or a property declared by the node's entity type
+  property: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface PatternNode {
+  variable: string;
+  // Entity type and its Neo4j label
+  type: string;
+  label: string;
+  filters: PatternFilter[];
+}
+
+export interface PatternRelationship {
+  variable: string;
+  type: string;
+  // Variables of the start and end nodes
+  start: string;
+  end: string;
+}
+
+export interface GraphPattern {
+  nodes: PatternNode[];
+  relationships: PatternRelationship[];
+}
+
+export type PatternResult = { ok: true; pattern: GraphPattern } | { ok: false; reason: string };
+
+export interface PatternMatch {
+  nodes: Record<string, InferredGraphNode>;
+  relationships: Record<string, InferredGraphRelationship>;
+}
+
+export interface PatternEvaluation {
+  matches: PatternMatch[];
+  // More matches exist than were returned
+  truncated: boolean;
+}
+
+// Matches returned by the in-memory evaluation, and the LIMIT of the generated query
+export const MAX_MATCHES = 200;
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  startsWith: 'starts with',
+  greaterThan: 'greater than',
+  lessThan: 'less than',
+};
+
+const NAME_PROPERTY: EntityPropertyDefinition = { key: 'name', label: 'Name', type: 'string' };
+
+/**
+ * The properties a pattern node can be filtered on: its name, then the properties declared by its type.
+ */
+export const filterableProperties = (type: string): EntityPropertyDefinition[] => [
+  NAME_PROPERTY,
+  ...(getEntityDefinition(type)?.properties ?? []),
+];
+
+/**
+ * Operators that apply to a property: text operators for strings, comparisons for numbers and dates.
+ */
+export const operatorsFor = (definition: EntityPropertyDefinition): FilterOperator[] =>
+  definition.type === 'number' || definition.type === 'date'
+    ? ['equals', 'greaterThan', 'lessThan']
+    : ['equals', 'contains', 'startsWith'];
+
+const propertyDefinition = (node: PatternNode, key: string): EntityPropertyDefinition | undefined =>
+  filterableProperties(node.type).find((definition) => definition.key === key);
+
+// A variable name Cypher accepts without quoting, derived from the entity type label
+const variableBase = (type: string): string =>
+  (getEntityDefinition(type)?.label ?? 'node').replace(/[^A-Za-z0-9]/g, '').toLowerCase() || 'node';
+
+/**
+ * Builds a pattern from the selected entities and connectors. A selected connector brings its two
+ * entities into the pattern even when they are not selected themselves.
+ */
+export const patternFromSelection = (state: CanvasState, nodeIds: string[], edgeIds: string[]): PatternResult => {
+  const edges = state.edges.filter((edge) => edgeIds.includes(edge.id));
+  const ids = new Set([...nodeIds, ...edges.flatMap((edge) => [edge.source, edge.target])]);
+  const selected = state.nodes.filter((node) => ids.has(node.id) && getEntityDefinition(node.type));
+  if (selected.length === 0) {
+    return { ok: false, reason: 'Select the entities and connectors that make up the pattern.' };
+  }
+
+  const counts = new Map<string, number>();
+  const variables = new Map<string, string>();
+  const nodes = selected.map((node): PatternNode => {
+    const type = node.type!;
+    const base = variableBase(type);
+    const count = (counts.get(base) ?? 0) + 1;
+    counts.set(base, count);
+    variables.set(node.id, `${base}${count}`);
+    return { variable: `${base}${count}`, type, label: getEntityDefinition(type)!.neo4jLabel, filters: [] };
+  });
+
+  const relationships = edges.flatMap((edge, index): PatternRelationship[] => {
+    const relationship = resolveEdgeRelationship(edge, state.nodes);
+    const { start, end } = relationshipEndpoints(edge, relationship?.direction ?? 'forward');
+    const startVariable = variables.get(start);
+    const endVariable = variables.get(end);
+    if (!relationship || !startVariable || !endVariable) {
+      return [];
+    }
+    return [{ variable: `r${index + 1}`, type: relationship.relationshipType, start: startVariable, end: endVariable }];
+  });
+
+  return { ok: true, pattern: { nodes, relationships } };
+};
+
+// Filter values are typed by their property: numbers are compared as numbers, dates as ISO strings
+const parseFilterValue = (definition: EntityPropertyDefinition, raw: string): EntityPropertyValue | undefined => {
+  const value = raw.trim();
+  if (definition.type === 'number') {
+    const number = Number(value);
+    return value && Number.isFinite(number) ? number : undefined;
+  }
+  if (definition.type === 'date') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  }
+  return value;
+};
+
+/**
+ * Describes each filter that cannot be applied, e.g. a non-numeric value for a number property.
+ * Such filters are left out of both the query and the evaluation.
+ */
+export const invalidFilters = (pattern: GraphPattern): Map<string, string> => {
+  const invalid = new Map<string, string>();
+  pattern.nodes.forEach((node) =>
+    node.filters.forEach((filter) => {
+      const definition = propertyDefinition(node, filter.property);
+      if (!definition) {
+        invalid.set(filter.id, `${node.variable} has no property "${filter.property}".`);
+      } else if (!operatorsFor(definition).includes(filter.operator)) {
+        invalid.set(filter.id, `${definition.label} cannot be compared with "${OPERATOR_LABELS[filter.operator]}".`);
+      } else if (parseFilterValue(definition, filter.value) === undefined) {
+        invalid.set(filter.id, `${definition.label} must be ${definition.type === 'date' ? 'a date (YYYY-MM-DD)' : 'a number'}.`);
+      }
+    })
+  );
+  return invalid;
+};
+
+interface AppliedFilter {
+  filter: PatternFilter;
+  definition: EntityPropertyDefinition;
+  value: EntityPropertyValue;
+}
+
+const appliedFilters = (node: PatternNode, invalid: Map<string, string>): AppliedFilter[] =>
+  node.filters.flatMap((filter) => {
+    const definition = propertyDefinition(node, filter.property);
+    const value = definition && parseFilterValue(definition, filter.value);
+    return definition && value !== undefined && !invalid.has(filter.id) ? [{ filter, definition, value }] : [];
+  });
+
+// Text operators ignore case, in the query (through toLower) as in the evaluation
+const conditionFor = (variable: string, { filter, definition }: AppliedFilter, param: string): string => {
+  const property = `${variable}.${quoteIdentifier(filter.property)}`;
+  const value = definition.type === 'date' ? `date(${param})` : param;
+  switch (filter.operator) {
+    case 'contains':
+      return `toLower(${property}) CONTAINS toLower(${value})`;
+    case 'startsWith':
+      return `toLower(${property}) STARTS WITH toLower(${value})`;
+    case 'greaterThan':
+      return `${property} > ${value}`;
+    case 'lessThan':
+      return `${property} < ${value}`;
+    default:
+      return `${property} = ${value}`;
+  }
+};
+
+/**
+ * Renders the pattern as a parameterized MATCH query returning every variable. Nodes are matched
+ * within the given diagram only, as a repository saves them tagged with its `diagram_id`.
+ */
+export const toMatchQuery = (pattern: GraphPattern, diagramId: string): CypherStatement => {
+  const declared = new Set<string>();
+  const nodesByVariable = new Map(pattern.nodes.map((node) => [node.variable, node]));
+  const nodePattern = (variable: string): string => {
+    if (declared.has(variable)) {
+      return `(${variable})`;
+    }
+    declared.add(variable);
+    return `(${variable}:${quoteIdentifier(nodesByVariable.get(variable)!.label)} {diagram_id: $diagramId})`;
+  };
+
+  const paths = pattern.relationships.map(
+    ({ variable, type, start, end }) => `${nodePattern(start)}-[${variable}:${quoteIdentifier(type)}]->${nodePattern(end)}`
+  );
+  pattern.nodes.forEach((node) => {
+    if (!declared.has(node.variable)) {
+      paths.push(nodePattern(node.variable));
+    }
+  });
+
+  const invalid = invalidFilters(pattern);
+  const params: Record<string, unknown> = {};
+  const conditions = pattern.nodes.flatMap((node) =>
+    appliedFilters(node, invalid).map((applied) => {
+      const param = `value${Object.keys(params).length + 1}`;
+      params[param] = applied.value;
+      return conditionFor(node.variable, applied, `$${param}`);
+    })
+  );
+
+  const variables = [...pattern.nodes.map((node) => node.variable), ...pattern.relationships.map((r) => r.variable)];
+  const query =
+    `MATCH ${paths.join(',\n      ')}` +
+    (conditions.length > 0 ? `\nWHERE ${conditions.join('\n  AND ')}` : '') +
+    `\nRETURN ${variables.join(', ')}\nLIMIT ${MAX_MATCHES}`;
+  return { query, params: { diagramId, ...params } };
+};
+
+const nodeValue = (node: InferredGraphNode, key: string): EntityPropertyValue | undefined =>
+  key === 'name' ? node.name : node.properties[key];
+
+const passes = (node: InferredGraphNode, { filter, value }: AppliedFilter): boolean => {
+  const actual = nodeValue(node, filter.property);
+  if (actual === undefined) {
+    return false;
+  }
+  switch (filter.operator) {
+    case 'contains':
+      return String(actual).toLowerCase().includes(String(value).toLowerCase());
+    case 'startsWith':
+      return String(actual).toLowerCase().startsWith(String(value).toLowerCase());
+    case 'greaterThan':
+      return typeof actual === typeof value && actual > value;
+    case 'lessThan':
+      return typeof actual === typeof value && actual < value;
+    default:
+      return actual === value;
+  }
+};
+
+/**
+ * Finds every binding of the pattern in the graph, with Cypher semantics: a node may be bound to
+ * several variables, but a relationship to at most one variable per match.
+ */
+export const evaluatePattern = (pattern: GraphPattern, graph: InferredGraph, limit: number = MAX_MATCHES): PatternEvaluation => {
+  const invalid = invalidFilters(pattern);
+  const candidates = new Map(
+    pattern.nodes.map((node) => {
+      const filters = appliedFilters(node, invalid);
+      return [node.variable, graph.nodes.filter((graphNode) => graphNode.label === node.label && filters.every((f) => passes(graphNode, f)))];
+    })
+  );
+  const relationshipsBetween = (type: string, start: string, end: string) =>
+    graph.relationships.filter((r) => r.type === type && r.start === start && r.end === end);
+
+  // Nodes are bound one at a time, checking every relationship as soon as both of its ends are bound
+  const order = [...pattern.nodes].sort((a, b) => candidates.get(a.variable)!.length - candidates.get(b.variable)!.length);
+  const matches: PatternMatch[] = [];
+  let truncated = false;
+  const nodes: Record<string, InferredGraphNode> = {};
+
+  const bindRelationships = (index: number, relationships: Record<string, InferredGraphRelationship>, used: Set<string>) => {
+    if (truncated) {
+      return;
+    }
+    if (index === pattern.relationships.length) {
+      // A match beyond the limit is only counted, so `truncated` means more matches really exist
+      if (matches.length === limit) {
+        truncated = true;
+      } else {
+        matches.push({ nodes: { ...nodes }, relationships: { ...relationships } });
+      }
+      return;
+    }
+    const { variable, type, start, end } = pattern.relationships[index];
+    relationshipsBetween(type, nodes[start].id, nodes[end].id)
+      .filter((relationship) => !used.has(relationship.id))
+      .forEach((relationship) => {
+        used.add(relationship.id);
+        bindRelationships(index + 1, { ...relationships, [variable]: relationship }, used);
+        used.delete(relationship.id);
+      });
+  };
+
+  const bindNodes = (index: number) => {
+    if (truncated) {
+      return;
+    }
+    if (index === order.length) {
+      bindRelationships(0, {}, new Set());
+      return;
+    }
+    const { variable } = order[index];
+    candidates.get(variable)!.forEach((candidate) => {
+      nodes[variable] = candidate;
+      const connected = pattern.relationships.every(
+        ({ type, start, end }) => !(start in nodes && end in nodes) || relationshipsBetween(type, nodes[start].id, nodes[end].id).length > 0
+      );
+      if (connected) {
+        bindNodes(index + 1);
+      }
+      delete nodes[variable];
+    });
+  };
+
+  if (pattern.nodes.length > 0) {
+    bindNodes(0);
+  }
+  return { matches, truncated };
+};
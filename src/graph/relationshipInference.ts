@@ -0,0 +1,203 @@
+import type {
+  CustomNodeType,
+  EntityNode,
+  RelationshipDirection,
+  RelationshipEdge,
+  RelationshipEdgeData,
+} from '../models/CanvasModels';
+import { ENTITY_REGISTRY, type EntityTypeDefinition } from '../models/entityRegistry';
+import { pickRelationshipProperties } from '../models/entityProperties';
+import { handleOfKind } from '../models/connectionHandles';
+
+/**
+ * Relationship inference for unlabelled connectors.
+ *
+ * Users never name a connector on the canvas. Instead, the Neo4j relationship type is
+ * resolved from the entity types at each end of the connection, using rules derived from the
+ * connections declared in the entity registry.
+ * This module is pure so the same rules can be used by the canvas, the graph generators and tests.
+ */
+
+export interface RelationshipRule {
+  relationshipType: string;
+  direction: RelationshipDirection;
+}
+
+export type InferenceResult =
+  | { ok: true; rule: RelationshipRule }
+  | { ok: false; reason: string };
+
+const ruleKey = (sourceType: string, targetType: string): string => `${sourceType}->${targetType}`;
+
+type ConnectionRegistry = Record<string, Pick<EntityTypeDefinition, 'connections'>>;
+
+/**
+ * Lists every relationship allowed between two entity types, in registry order: connections the
+ * source type declares towards the target first (forward), then connections the target type
+ * declares towards the source (reverse, for when the user drags from the other end).
+ * Each relationship type appears once.
+ */
+export const listAllowedRelationships = (
+  registry: ConnectionRegistry,
+  sourceType: string,
+  targetType: string,
+): RelationshipRule[] => {
+  const candidates: RelationshipRule[] = [
+    ...(registry[sourceType]?.connections ?? [])
+      .filter(({ target }) => target === targetType)
+      .map(({ relationshipType }) => ({ relationshipType, direction: 'forward' as const })),
+    ...(registry[targetType]?.connections ?? [])
+      .filter(({ target }) => target === sourceType)
+      .map(({ relationshipType }) => ({ relationshipType, direction: 'reverse' as const })),
+  ];
+  return candidates.filter(
+    (rule, index) => candidates.findIndex((other) => other.relationshipType === rule.relationshipType) === index
+  );
+};
+
+/**
+ * Builds the rule table keyed on (source type, target type) from the connections declared in the
+ * entity registry. The first allowed relationship for a pair is the one inferred; the others are
+ * available as overrides.
+ */
+export const buildRelationshipRules = (registry: ConnectionRegistry): Record<string, RelationshipRule> => {
+  const rules: Record<string, RelationshipRule> = {};
+  const types = Object.keys(registry);
+  types.forEach((sourceType) => {
+    types.forEach((targetType) => {
+      const [rule] = listAllowedRelationships(registry, sourceType, targetType);
+      if (rule) {
+        rules[ruleKey(sourceType, targetType)] = rule;
+      }
+    });
+  });
+  return rules;
+};
+
+export const RELATIONSHIP_RULES: Readonly<Record<string, RelationshipRule>> = buildRelationshipRules(ENTITY_REGISTRY);
+
+/**
+ * Returns the relationships a connection between two entity types may be overridden to.
+ */
+export const allowedRelationships = (sourceType: string, targetType: string): RelationshipRule[] =>
+  listAllowedRelationships(ENTITY_REGISTRY, sourceType, targetType);
+
+/**
+ * Resolves the relationship type and direction for a connection between two entity types.
+ */
+export const inferRelationship = (sourceType: CustomNodeType, targetType: CustomNodeType): InferenceResult => {
+  const rule = RELATIONSHIP_RULES[ruleKey(sourceType, targetType)];
+  if (!rule) {
+    return { ok: false, reason: `No relationship can be inferred between ${sourceType} and ${targetType}.` };
+  }
+  return { ok: true, rule };
+};
+
+/**
+ * Resolves the relationship for an edge by looking up the entity types of its end nodes.
+ */
+export const inferEdgeRelationship = (
+  edge: Pick<RelationshipEdge, 'source' | 'target'>,
+  nodes: EntityNode[],
+): InferenceResult => {
+  const source = nodes.find((n) => n.id === edge.source);
+  const target = nodes.find((n) => n.id === edge.target);
+  if (!source || !target) {
+    return { ok: false, reason: 'The connection refers to an entity that is not on the canvas.' };
+  }
+  return inferRelationship(source.type as CustomNodeType, target.type as CustomNodeType);
+};
+
+/**
+ * Returns the graph start and end node ids for an edge, taking the inferred direction into account.
+ */
+export const relationshipEndpoints = (
+  edge: Pick<RelationshipEdge, 'source' | 'target'>,
+  direction: RelationshipDirection,
+): { start: string; end: string } =>
+  direction === 'reverse'
+    ? { start: edge.target, end: edge.source }
+    : { start: edge.source, end: edge.target };
+
+/**
+ * True when a relationship type may run both ways between two entity types, i.e. each type
+ * declares it towards the other (always the case between entities of the same type).
+ */
+export const canBeBidirectional = (sourceType: string, targetType: string, relationshipType: string): boolean => {
+  const declares = (from: string, to: string) =>
+    (ENTITY_REGISTRY[from as CustomNodeType]?.connections ?? []).some(
+      (connection) => connection.target === to && connection.relationshipType === relationshipType
+    );
+  return declares(sourceType, targetType) && declares(targetType, sourceType);
+};
+
+// Id of the second relationship written for a bidirectional connector
+export const reverseRelationshipId = (id: string): string => `${id}:reverse`;
+
+/**
+ * Returns the graph relationships a connector stands for: one following its direction and, for a
+ * bidirectional connector, a second one running back (with the id from `reverseRelationshipId`).
+ */
+export const relationshipInstances = (
+  edge: Pick<RelationshipEdge, 'id' | 'source' | 'target'>,
+  relationship: Pick<RelationshipEdgeData, 'direction' | 'bidirectional'>,
+): { id: string; start: string; end: string }[] => {
+  const { start, end } = relationshipEndpoints(edge, relationship.direction);
+  return relationship.bidirectional
+    ? [{ id: edge.id, start, end }, { id: reverseRelationshipId(edge.id), start: end, end: start }]
+    : [{ id: edge.id, start, end }];
+};
+
+export type ReverseResult = { ok: true; edge: RelationshipEdge } | { ok: false; reason: string };
+
+/**
+ * Redraws a connector the other way round and re-runs relationship inference for it. A relationship
+ * type the user picked is kept when it is still allowed; otherwise the inferred one is used.
+ * Handles swap too, so the connector stays attached to the same sides of its entities.
+ */
+export const reverseConnector = (edge: RelationshipEdge, nodes: EntityNode[]): ReverseResult => {
+  const reversed = { source: edge.target, target: edge.source };
+  const inference = inferEdgeRelationship(reversed, nodes);
+  if (!inference.ok) {
+    return { ok: false, reason: inference.reason };
+  }
+  const source = nodes.find((node) => node.id === reversed.source);
+  const target = nodes.find((node) => node.id === reversed.target);
+  const kept = edge.data?.overridden
+    ? allowedRelationships(source?.type ?? '', target?.type ?? '').find(
+        (rule) => rule.relationshipType === edge.data?.relationshipType
+      )
+    : undefined;
+  const rule = kept ?? inference.rule;
+  const overridden = rule.relationshipType !== inference.rule.relationshipType;
+  const bidirectional = edge.data?.bidirectional && canBeBidirectional(source?.type ?? '', target?.type ?? '', rule.relationshipType);
+
+  return {
+    ok: true,
+    edge: {
+      ...edge,
+      ...reversed,
+      sourceHandle: handleOfKind('source', edge.targetHandle),
+      targetHandle: handleOfKind('target', edge.sourceHandle),
+      data: {
+        relationshipType: rule.relationshipType,
+        direction: rule.direction,
+        ...(overridden ? { overridden } : {}),
+        ...(bidirectional ? { bidirectional } : {}),
+        properties: pickRelationshipProperties(rule.relationshipType, edge.data?.properties),
+      },
+    },
+  };
+};
+
+/**
+ * Returns the relationship stored on an edge, inferring it for edges saved before inference existed.
+ * Returns null when no relationship can be resolved.
+ */
+export const resolveEdgeRelationship = (edge: RelationshipEdge, nodes: EntityNode[]): RelationshipEdgeData | null => {
+  if (edge.data?.relationshipType) {
+    return edge.data;
+  }
+  const inference = inferEdgeRelationship(edge, nodes);
+  return inference.ok ? inference.rule : null;
+};
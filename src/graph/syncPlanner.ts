@@ -0,0 +1,194 @@
+import type { CanvasState, EntityNode } from '../models/CanvasModels';
+import { getEntityDefinition, getRelationshipDefinition } from '../models/entityRegistry';
+import { pickDeclaredProperties } from '../models/entityProperties';
+import type { CanvasDiff, GraphRelationship } from './canvasDiff';
+import { toGraphCanvas } from './entityAliases';
+import { labelForNodeType, propertyAssignment, quoteIdentifier, type CypherStatement } from './cypherGenerator';
+
+/**
+ * Sync planner: turns a canvas diff into the minimal Cypher that brings a graph generated from the
+ * "before" canvas in line with the "after" canvas, instead of re-running the full MERGE script.
+ *
+ * Statements run in dependency order: relationships are deleted before nodes, nodes are
+ * relabelled, updated and created before relationships are created. Relationship types cannot be
+ * changed in Cypher, so a retyped (or reversed) relationship is deleted and created again.
+ * Scoped to a diagram, the statements only touch the nodes and relationships tagged with its
+ * `diagram_id`, as a repository saves them.
+ */
+
+export interface SyncPlanOptions {
+  // Saved diagram whose graph the statements apply to
+  diagramId?: string;
+}
+
+// Rows are batched per label (or relationship type), like the full generator
+const groupBy = <T>(items: T[], keyOf: (item: T) => string | undefined): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    if (key !== undefined) {
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+  });
+  return groups;
+};
+
+const nodeRow = (node: EntityNode) => ({
+  ui_id: node.id,
+  name: node.data.name,
+  properties: pickDeclaredProperties(node.type, node.data.properties),
+});
+
+const nodeAssignments = (type: string | undefined): string[] => [
+  'n.name = row.name',
+  ...(getEntityDefinition(type)?.properties ?? []).map(propertyAssignment('n')),
+];
+
+const relationshipRow = (relationship: GraphRelationship) => ({
+  ui_id: relationship.id,
+  start: relationship.start,
+  end: relationship.end,
+  properties: relationship.properties,
+});
+
+const relationshipAssignments = (type: string): string[] =>
+  (getRelationshipDefinition(type)?.properties ?? []).map(propertyAssignment('r'));
+
+const deleteRelationships = (relationships: GraphRelationship[], scope: string): CypherStatement[] =>
+  [...groupBy(relationships, (relationship) => relationship.type)].map(([type, group]) => ({
+    query:
+      `UNWIND $ids AS id\n` +
+      `MATCH ()-[r:${quoteIdentifier(type)} {ui_id: id${scope}}]->()\n` +
+      `DELETE r`,
+    params: { ids: group.map((relationship) => relationship.id) },
+  }));
+
+const createRelationships = (relationships: GraphRelationship[], labelsById: Map<string, string>, scope: string): CypherStatement[] =>
+  [...groupBy(relationships, (relationship) => {
+    const startLabel = labelsById.get(relationship.start);
+    const endLabel = labelsById.get(relationship.end);
+    return startLabel && endLabel ? `${relationship.type}:${startLabel}:${endLabel}` : undefined;
+  })].map(([, group]) => {
+    const [{ type, start, end }] = group;
+    const assignments = relationshipAssignments(type);
+    return {
+      query:
+        `UNWIND $rows AS row\n` +
+        `MATCH (a:${quoteIdentifier(labelsById.get(start)!)} {ui_id: row.start${scope}})\n` +
+        `MATCH (b:${quoteIdentifier(labelsById.get(end)!)} {ui_id: row.end${scope}})\n` +
+        `CREATE (a)-[r:${quoteIdentifier(type)} {ui_id: row.ui_id${scope}}]->(b)` +
+        (assignments.length > 0 ? `\nSET ${assignments.join(', ')}` : ''),
+      params: { rows: group.map(relationshipRow) },
+    };
+  });
+
+/**
+ * Plans the statements for a diff. `after` is the canvas the diff leads to; it supplies the labels
+ * of the nodes new relationships are attached to.
+ */
+export const planSync = (diff: CanvasDiff, after: CanvasState, { diagramId }: SyncPlanOptions = {}): CypherStatement[] => {
+  // Added to every node and relationship pattern, matched or created
+  const scope = diagramId !== undefined ? ', diagram_id: $diagramId' : '';
+  const statements: CypherStatement[] = [];
+  const labelsById = new Map<string, string>();
+  toGraphCanvas(after).nodes.forEach((node) => {
+    const label = labelForNodeType(node.type);
+    if (label) {
+      labelsById.set(node.id, label);
+    }
+  });
+  const removedNodeIds = new Set(diff.removedNodes.map((node) => node.id));
+  const retypedNodeIds = new Set(diff.retypedNodes.map(({ after }) => after.id));
+
+  // 1. Relationships that are gone or must be recreated. DETACH DELETE removes those of deleted nodes.
+  statements.push(
+    ...deleteRelationships([
+      ...diff.removedRelationships.filter(({ start, end }) => !removedNodeIds.has(start) && !removedNodeIds.has(end)),
+      ...diff.retypedRelationships.map(({ before }) => before),
+    ], scope)
+  );
+
+  // 2. Deleted nodes
+  groupBy(diff.removedNodes, (node) => labelForNodeType(node.type)).forEach((nodes, label) => {
+    statements.push({
+      query:
+        `UNWIND $ids AS id\n` +
+        `MATCH (n:${quoteIdentifier(label)} {ui_id: id${scope}})\n` +
+        `DETACH DELETE n`,
+      params: { ids: nodes.map((node) => node.id) },
+    });
+  });
+
+  // 3. Relabelled nodes: swap the label, drop properties the new type does not declare, set the rest
+  groupBy(diff.retypedNodes, ({ before, after }) => `${before.type}->${after.type}`).forEach((changes) => {
+    const [{ before, after }] = changes;
+    const oldLabel = labelForNodeType(before.type);
+    const newLabel = labelForNodeType(after.type);
+    if (!oldLabel || !newLabel) {
+      return;
+    }
+    const newKeys = new Set(getEntityDefinition(after.type)?.properties.map(({ key }) => key));
+    const dropped = (getEntityDefinition(before.type)?.properties ?? [])
+      .filter(({ key }) => !newKeys.has(key))
+      .map(({ key }) => `n.${quoteIdentifier(key)}`);
+    statements.push({
+      query:
+        `UNWIND $rows AS row\n` +
+        `MATCH (n:${quoteIdentifier(oldLabel)} {ui_id: row.ui_id${scope}})\n` +
+        `REMOVE n:${quoteIdentifier(oldLabel)}${dropped.map((property) => `, ${property}`).join('')}\n` +
+        `SET n:${quoteIdentifier(newLabel)}, ${nodeAssignments(after.type).join(', ')}`,
+      params: { rows: changes.map((change) => nodeRow(change.after)) },
+    });
+  });
+
+  // 4. Renamed nodes and nodes with changed properties
+  const updated = [...diff.renamedNodes, ...diff.updatedNodes]
+    .map(({ after }) => after)
+    .filter((node, index, nodes) => !retypedNodeIds.has(node.id) && nodes.findIndex((other) => other.id === node.id) === index);
+  groupBy(updated, (node) => labelForNodeType(node.type)).forEach((nodes, label) => {
+    statements.push({
+      query:
+        `UNWIND $rows AS row\n` +
+        `MATCH (n:${quoteIdentifier(label)} {ui_id: row.ui_id${scope}})\n` +
+        `SET ${nodeAssignments(nodes[0].type).join(', ')}`,
+      params: { rows: nodes.map(nodeRow) },
+    });
+  });
+
+  // 5. New nodes
+  groupBy(diff.addedNodes, (node) => labelForNodeType(node.type)).forEach((nodes, label) => {
+    statements.push({
+      query:
+        `UNWIND $rows AS row\n` +
+        `CREATE (n:${quoteIdentifier(label)} {ui_id: row.ui_id${scope}})\n` +
+        `SET ${nodeAssignments(nodes[0].type).join(', ')}`,
+      params: { rows: nodes.map(nodeRow) },
+    });
+  });
+
+  // 6. New and recreated relationships
+  statements.push(
+    ...createRelationships([...diff.addedRelationships, ...diff.retypedRelationships.map(({ after }) => after)], labelsById, scope)
+  );
+
+  // 7. Relationships with changed properties
+  groupBy(diff.updatedRelationships.map(({ after }) => after), (relationship) => relationship.type).forEach(
+    (relationships, type) => {
+      const assignments = relationshipAssignments(type);
+      if (assignments.length === 0) {
+        return;
+      }
+      statements.push({
+        query:
+          `UNWIND $rows AS row\n` +
+          `MATCH ()-[r:${quoteIdentifier(type)} {ui_id: row.ui_id${scope}}]->()\n` +
+          `SET ${assignments.join(', ')}`,
+        params: { rows: relationships.map(relationshipRow) },
+      });
+    }
+  );
+
+  return diagramId !== undefined
+    ? statements.map((statement) => ({ ...statement, params: { ...statement.params, diagramId } }))
+    : statements;
+};
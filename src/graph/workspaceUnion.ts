@@ -0,0 +1,163 @@
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import type { EntityProperties } from '../models/entityProperties';
+import { isAliasNode } from './entityAliases';
+import { isGroupNode } from './entityGroups';
+
+/**
+ * Workspaces: several diagrams open side by side, sharing one set of entities.
+ *
+ * An entity is shared by placing it, with its id, on more than one diagram. Every diagram keeps
+ * its own cards and connectors, while the entity's name and properties are kept the same across
+ * diagrams, and graph generation unions all diagrams into one model with a single node per id.
+ */
+
+export interface WorkspaceDiagram {
+  id: string;
+  name: string;
+  state: CanvasState;
+}
+
+// The part of an entity that is kept the same in every diagram showing it
+export interface SharedEntityData {
+  name: string;
+  properties: EntityProperties;
+}
+
+export interface CatalogueEntry extends SharedEntityData {
+  id: string;
+  type: string;
+  label: string;
+  // Names of the diagrams the entity appears on
+  diagramNames: string[];
+}
+
+export interface UnionResult {
+  state: CanvasState;
+  // One message per entity or connector whose diagrams disagree about it; the first diagram's version is used
+  conflicts: string[];
+}
+
+// Entities that can be shared: neither references (which belong to their diagram) nor groups
+const isShareable = (node: EntityNode): boolean => !isAliasNode(node) && !isGroupNode(node);
+
+const sharedData = (node: EntityNode): SharedEntityData => ({ name: node.data.name, properties: node.data.properties ?? {} });
+
+const sameProperties = (a: EntityProperties, b: EntityProperties): boolean =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([key, value]) => b[key] === value);
+
+export const sameSharedData = (a: SharedEntityData, b: SharedEntityData): boolean =>
+  a.name === b.name && sameProperties(a.properties, b.properties);
+
+// Whether two connectors with the same id make the same relationship; handles and layout do not count
+const sameRelationship = (a: RelationshipEdge, b: RelationshipEdge): boolean =>
+  a.source === b.source &&
+  a.target === b.target &&
+  a.data?.relationshipType === b.data?.relationshipType &&
+  a.data?.direction === b.data?.direction &&
+  Boolean(a.data?.bidirectional) === Boolean(b.data?.bidirectional) &&
+  sameProperties(a.data?.properties ?? {}, b.data?.properties ?? {});
+
+/**
+ * Lists every shareable entity of the workspace once, with the diagrams it appears on,
+ * ordered by label and then by name.
+ */
+export const buildCatalogue = (diagrams: WorkspaceDiagram[]): CatalogueEntry[] => {
+  const entries = new Map<string, CatalogueEntry>();
+  diagrams.forEach((diagram) =>
+    diagram.state.nodes.filter(isShareable).forEach((node) => {
+      const entry = entries.get(node.id);
+      if (entry) {
+        entry.diagramNames.push(diagram.name);
+      } else if (node.type) {
+        entries.set(node.id, {
+          id: node.id,
+          type: node.type,
+          label: node.data.label,
+          ...sharedData(node),
+          diagramNames: [diagram.name],
+        });
+      }
+    })
+  );
+  return [...entries.values()].sort((a, b) => a.label.localeCompare(b.label) || a.name.localeCompare(b.name));
+};
+
+/**
+ * Returns the shared entities a diagram has changed: those it shows with a name or properties
+ * that differ from another diagram's copy. The last diagram to change an entity wins.
+ */
+export const sharedEntityEdits = (others: WorkspaceDiagram[], changed: WorkspaceDiagram): Map<string, SharedEntityData> => {
+  const otherCopies = new Map<string, SharedEntityData[]>();
+  others.forEach((diagram) =>
+    diagram.state.nodes.filter(isShareable).forEach((node) => {
+      otherCopies.set(node.id, [...(otherCopies.get(node.id) ?? []), sharedData(node)]);
+    })
+  );
+  const edits = new Map<string, SharedEntityData>();
+  changed.state.nodes.filter(isShareable).forEach((node) => {
+    const data = sharedData(node);
+    if (otherCopies.get(node.id)?.some((copy) => !sameSharedData(copy, data))) {
+      edits.set(node.id, data);
+    }
+  });
+  return edits;
+};
+
+/**
+ * Brings a diagram's copies of shared entities, and the names shown on their references, up to
+ * date. Returns the same array when nothing changes.
+ */
+export const applySharedEntities = <N extends EntityNode>(nodes: N[], shared: ReadonlyMap<string, SharedEntityData>): N[] => {
+  let changed = false;
+  const updated = nodes.map((node): N => {
+    const data = shared.get(node.id);
+    if (data && isShareable(node) && !sameSharedData(sharedData(node), data)) {
+      changed = true;
+      return { ...node, data: { ...node.data, name: data.name, properties: data.properties } };
+    }
+    const entity = node.data.aliasOf !== undefined ? shared.get(node.data.aliasOf) : undefined;
+    if (entity && node.data.name !== entity.name) {
+      changed = true;
+      return { ...node, data: { ...node.data, name: entity.name } };
+    }
+    return node;
+  });
+  return changed ? updated : nodes;
+};
+
+/**
+ * Merges all diagrams into one canvas state: an entity shown on several diagrams becomes a single
+ * node carrying the connectors drawn on each of them.
+ */
+export const unionDiagrams = (diagrams: WorkspaceDiagram[]): UnionResult => {
+  const nodes = new Map<string, { node: EntityNode; diagram: string }>();
+  const edges = new Map<string, { edge: RelationshipEdge; diagram: string }>();
+  const conflicts: string[] = [];
+  diagrams.forEach((diagram) => {
+    diagram.state.nodes.forEach((node) => {
+      const first = nodes.get(node.id);
+      if (!first) {
+        nodes.set(node.id, { node, diagram: diagram.name });
+      } else if (first.node.type !== node.type || !sameSharedData(sharedData(first.node), sharedData(node))) {
+        conflicts.push(
+          `${first.node.data.label} "${first.node.data.name}" differs between "${first.diagram}" and "${diagram.name}"; the version on "${first.diagram}" is used.`
+        );
+      }
+    });
+    diagram.state.edges.forEach((edge) => {
+      const first = edges.get(edge.id);
+      if (!first) {
+        edges.set(edge.id, { edge, diagram: diagram.name });
+      } else if (!sameRelationship(first.edge, edge)) {
+        const name = (id: string) => nodes.get(id)?.node.data.name ?? id;
+        conflicts.push(
+          `The connector from "${name(first.edge.source)}" to "${name(first.edge.target)}" differs between "${first.diagram}" and "${diagram.name}"; the version on "${first.diagram}" is used.`
+        );
+      }
+    });
+  });
+  return {
+    state: { nodes: [...nodes.values()].map(({ node }) => node), edges: [...edges.values()].map(({ edge }) => edge) },
+    conflicts,
+  };
+};
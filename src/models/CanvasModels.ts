@@ -0,0 +1,56 @@
+import type { Node, Edge } from 'reactflow';
+import type { EntityProperties } from './entityProperties';
+
+// Entity types available on the business model canvas (the React Flow node `type`), see entityRegistry
+export type { CustomNodeType } from './entityRegistry';
+
+// One underlying entity represented by a group node
+export interface EntityGroupMember {
+  id: string;
+  name: string;
+  // Overrides the group's shared properties for this member
+  properties?: EntityProperties;
+}
+
+// Present on group (abstraction) nodes, which stand for many entities of the node's type
+export interface EntityGroup {
+  members: EntityGroupMember[];
+  // Whether the member list is shown on the canvas card
+  expanded?: boolean;
+}
+
+// Data held by every entity node on the canvas
+export interface EntityNodeData {
+  label: string;
+  name: string;
+  // Typed custom properties declared for the entity type in the registry
+  properties?: EntityProperties;
+  group?: EntityGroup;
+  // Present on reference (alias) nodes: the id of the entity this card refers to
+  aliasOf?: string;
+}
+
+// 'forward' means the graph relationship runs from the canvas source to the canvas target,
+// 'reverse' means it runs from the canvas target back to the canvas source.
+export type RelationshipDirection = 'forward' | 'reverse';
+
+// Data held by every connector, filled in by relationship inference on connect
+export interface RelationshipEdgeData {
+  relationshipType: string;
+  direction: RelationshipDirection;
+  // True when the user picked the relationship type instead of keeping the inferred one
+  overridden?: boolean;
+  // Typed properties declared for the relationship type in the registry
+  properties?: EntityProperties;
+  // The relationship is written in both directions, e.g. two companies that supply each other
+  bidirectional?: boolean;
+}
+
+export type EntityNode = Node<EntityNodeData>;
+export type RelationshipEdge = Edge<RelationshipEdgeData>;
+
+// The serializable state of the canvas, as produced by `handleSave`
+export interface CanvasState {
+  nodes: EntityNode[];
+  edges: RelationshipEdge[];
+}
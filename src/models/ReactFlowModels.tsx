@@ -8,4 +8,4 @@ export type CustomNodeData = {
 // 2. Define the types for your flow elements
 // N = Node Data, E = Edge Data
 export type RFNode = Node<CustomNodeData>;
-export type RFEdge = Edge<any>; // Using 'any' for edge data for simplicity, but you can define a type here too
\ No newline at end of file
+export type RFEdge = Edge; // Edges carry no data of their own
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Connection handles on entity nodes.
+ *
+ * Every entity has a source and a target handle on each of its four sides, so connectors can
+ * leave and enter wherever the layout needs them. Handle ids are saved with each connector
+ * (`sourceHandle` / `targetHandle`), e.g. `reactflow__handle-source-right`.
+ */
+
+export type HandleKind = 'source' | 'target';
+
+// Same values as React Flow's `Position`, kept as plain strings so the graph modules stay free of React Flow
+export type HandleSide = 'top' | 'right' | 'bottom' | 'left';
+
+// Sides in the order handles are rendered; connectors saved without handle ids use the first
+// handle of each kind, so the right side comes first for sources and the left side for targets
+export const SOURCE_SIDES: HandleSide[] = ['right', 'bottom', 'left', 'top'];
+export const TARGET_SIDES: HandleSide[] = ['left', 'top', 'right', 'bottom'];
+
+export const handleId = (kind: HandleKind, side: HandleSide): string => `reactflow__handle-${kind}-${side}`;
+
+const SIDES = new Set<string>(SOURCE_SIDES);
+
+/**
+ * Returns the side a handle id refers to, or undefined for ids saved before handles had sides.
+ */
+export const handleSide = (id: string | null | undefined): HandleSide | undefined => {
+  const side = id?.split('-').pop();
+  return side !== undefined && SIDES.has(side) ? (side as HandleSide) : undefined;
+};
+
+/**
+ * Returns the id of the handle of the given kind on the same side as another handle. Connecting
+ * can end on either kind of handle, so connectors are normalised to always end on a target handle.
+ */
+export const handleOfKind = (kind: HandleKind, id: string | null | undefined): string | null => {
+  const side = handleSide(id);
+  return side ? handleId(kind, side) : null;
+};
@@ -0,0 +1,113 @@
+import type { EntityPropertyDefinition } from './entityRegistry';
+import { getEntityDefinition, getRelationshipDefinition } from './entityRegistry';
+
+/**
+ * Parsing and validation of the typed custom properties declared on each entity and relationship type.
+ * Values are kept JSON-friendly: numbers as numbers, dates as `YYYY-MM-DD` strings.
+ */
+
+export type EntityPropertyValue = string | number;
+
+export type EntityProperties = Record<string, EntityPropertyValue>;
+
+export type PropertyParseResult =
+  | { ok: true; value: EntityPropertyValue | undefined } // undefined clears the property
+  | { ok: false; error: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string): boolean =>
+  ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value);
+
+/**
+ * Parses raw input (e.g. from a form field) into a property value, validating it against its definition.
+ */
+export const parsePropertyValue = (definition: EntityPropertyDefinition, raw: string): PropertyParseResult => {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return definition.required ? { ok: false, error: `${definition.label} is required.` } : { ok: true, value: undefined };
+  }
+
+  switch (definition.type) {
+    case 'number': {
+      const value = Number(trimmed);
+      if (!Number.isFinite(value)) {
+        return { ok: false, error: `${definition.label} must be a number.` };
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return { ok: false, error: `${definition.label} must be at least ${definition.min}.` };
+      }
+      return { ok: true, value };
+    }
+    case 'date':
+      return isValidDate(trimmed)
+        ? { ok: true, value: trimmed }
+        : { ok: false, error: `${definition.label} must be a date (YYYY-MM-DD).` };
+    case 'enum':
+      return definition.options?.includes(trimmed)
+        ? { ok: true, value: trimmed }
+        : { ok: false, error: `${definition.label} must be one of: ${definition.options?.join(', ')}.` };
+    default:
+      return { ok: true, value: trimmed };
+  }
+};
+
+/**
+ * Formats a stored property value for display in a form field.
+ */
+export const formatPropertyValue = (value: EntityPropertyValue | undefined): string =>
+  value === undefined ? '' : String(value);
+
+/**
+ * Validates stored properties against a list of property definitions.
+ * Returns error messages keyed by property key; an empty object means the properties are valid.
+ * Properties that are not declared are ignored.
+ */
+export const validateProperties = (
+  definitions: EntityPropertyDefinition[],
+  properties: EntityProperties = {},
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  definitions.forEach((definition) => {
+    const result = parsePropertyValue(definition, formatPropertyValue(properties[definition.key]));
+    if (!result.ok) {
+      errors[definition.key] = result.error;
+    }
+  });
+  return errors;
+};
+
+/**
+ * Validates stored properties against the definitions of an entity type.
+ */
+export const validateEntityProperties = (type: string | undefined, properties: EntityProperties = {}): Record<string, string> =>
+  validateProperties(getEntityDefinition(type)?.properties ?? [], properties);
+
+/**
+ * Returns only the declared properties, dropping unknown keys and non-scalar values.
+ */
+export const pickProperties = (
+  definitions: EntityPropertyDefinition[],
+  properties: Record<string, unknown> = {},
+): EntityProperties => {
+  const declared: EntityProperties = {};
+  definitions.forEach(({ key }) => {
+    const value = properties[key];
+    if (typeof value === 'string' || typeof value === 'number') {
+      declared[key] = value;
+    }
+  });
+  return declared;
+};
+
+/**
+ * Returns only the properties declared by the entity type.
+ */
+export const pickDeclaredProperties = (type: string | undefined, properties: Record<string, unknown> = {}): EntityProperties =>
+  pickProperties(getEntityDefinition(type)?.properties ?? [], properties);
+
+/**
+ * Returns only the properties declared by the relationship type.
+ */
+export const pickRelationshipProperties = (type: string | undefined, properties: Record<string, unknown> = {}): EntityProperties =>
+  pickProperties(getRelationshipDefinition(type)?.properties ?? [], properties);
@@ -0,0 +1,167 @@
+import { Building, Truck, User, type LucideIcon } from 'lucide-react';
+
+/**
+ * Entity type registry.
+ *
+ * Every entity type that can be placed on the canvas is declared here, and everything else
+ * (sidebar, node renderers, minimap colors, Neo4j labels, relationship inference) is derived
+ * from it. Adding a new entity type, e.g. "Customer", only requires a new entry below.
+ */
+
+// Tailwind classes are spelled out in full so the Tailwind compiler can find them
+export interface EntityColor {
+  bg: string;
+  border: string;
+  text: string;
+  hex: string; // used where classes cannot be applied (minimap, SVG exports)
+}
+
+export interface EntityPropertyDefinition {
+  key: string;
+  label: string;
+  type: 'string' | 'number' | 'date' | 'enum';
+  required?: boolean;
+  min?: number; // lower bound for 'number' properties
+  options?: string[]; // allowed values for 'enum' properties
+}
+
+// A relationship this entity type can start in the graph, e.g. Employee -[:WORKS_FOR]-> Company
+export interface EntityConnectionDefinition {
+  target: string;
+  relationshipType: string;
+}
+
+export interface EntityTypeDefinition {
+  label: string;
+  neo4jLabel: string;
+  icon: LucideIcon;
+  color: EntityColor;
+  description: string;
+  properties: EntityPropertyDefinition[];
+  connections: EntityConnectionDefinition[];
+}
+
+export const ENTITY_REGISTRY = {
+  company: {
+    label: 'Company',
+    neo4jLabel: 'COMPANY',
+    icon: Building,
+    color: { bg: 'bg-emerald-500', border: 'border-emerald-500', text: 'text-emerald-500', hex: '#10B981' },
+    description: 'The core business entity.',
+    properties: [
+      { key: 'industry', label: 'Industry', type: 'string' },
+      { key: 'revenue', label: 'Annual Revenue', type: 'number', min: 0 },
+    ],
+    connections: [
+      { target: 'company', relationshipType: 'SUPPLIES' },
+      { target: 'company', relationshipType: 'OWNS' },
+    ],
+  },
+  employee: {
+    label: 'Employee',
+    neo4jLabel: 'EMPLOYEE',
+    icon: User,
+    color: { bg: 'bg-blue-500', border: 'border-blue-500', text: 'text-blue-500', hex: '#3B82F6' },
+    description: 'A resource entity.',
+    properties: [
+      {
+        key: 'role',
+        label: 'Role',
+        type: 'enum',
+        options: ['Executive', 'Manager', 'Engineer', 'Sales', 'Operations', 'Other'],
+      },
+      { key: 'startDate', label: 'Start Date', type: 'date' },
+    ],
+    connections: [
+      { target: 'company', relationshipType: 'WORKS_FOR' },
+      { target: 'employee', relationshipType: 'REPORTS_TO' },
+    ],
+  },
+  supplier: {
+    label: 'Supplier',
+    neo4jLabel: 'SUPPLIER',
+    icon: Truck,
+    color: { bg: 'bg-orange-500', border: 'border-orange-500', text: 'text-orange-500', hex: '#F97316' },
+    description: 'An external partner entity.',
+    properties: [
+      { key: 'category', label: 'Category', type: 'string' },
+      { key: 'contractEnd', label: 'Contract End', type: 'date' },
+    ],
+    connections: [
+      { target: 'company', relationshipType: 'SUPPLIES' },
+      { target: 'supplier', relationshipType: 'SUPPLIES' },
+    ],
+  },
+} satisfies Record<string, EntityTypeDefinition>;
+
+export type CustomNodeType = keyof typeof ENTITY_REGISTRY;
+
+export interface RelationshipTypeDefinition {
+  label: string;
+  properties: EntityPropertyDefinition[];
+}
+
+// Relationship types that connections may resolve to, with the typed properties each can carry
+export const RELATIONSHIP_REGISTRY: Record<string, RelationshipTypeDefinition> = {
+  SUPPLIES: {
+    label: 'Supplies',
+    properties: [
+      { key: 'since', label: 'Since', type: 'date' },
+      { key: 'contractValue', label: 'Contract Value', type: 'number', min: 0 },
+    ],
+  },
+  OWNS: {
+    label: 'Owns',
+    properties: [
+      { key: 'since', label: 'Since', type: 'date' },
+      { key: 'share', label: 'Share (%)', type: 'number', min: 0 },
+    ],
+  },
+  WORKS_FOR: {
+    label: 'Works For',
+    properties: [{ key: 'since', label: 'Since', type: 'date' }],
+  },
+  REPORTS_TO: {
+    label: 'Reports To',
+    properties: [{ key: 'since', label: 'Since', type: 'date' }],
+  },
+};
+
+/**
+ * Returns the definition of a relationship type, or undefined for unknown types.
+ */
+export const getRelationshipDefinition = (type: string | undefined): RelationshipTypeDefinition | undefined =>
+  type !== undefined && Object.prototype.hasOwnProperty.call(RELATIONSHIP_REGISTRY, type)
+    ? RELATIONSHIP_REGISTRY[type]
+    : undefined;
+
+// Fallback color for nodes whose type is not (or no longer) registered
+export const UNKNOWN_ENTITY_COLOR: EntityColor = {
+  bg: 'bg-gray-500',
+  border: 'border-gray-500',
+  text: 'text-gray-500',
+  hex: '#1E293B',
+};
+
+export const ENTITY_TYPES = Object.keys(ENTITY_REGISTRY) as CustomNodeType[];
+
+export const isEntityType = (type: string | undefined): type is CustomNodeType =>
+  type !== undefined && Object.prototype.hasOwnProperty.call(ENTITY_REGISTRY, type);
+
+/**
+ * Returns the definition of an entity type, or undefined for unknown types.
+ */
+export const getEntityDefinition = (type: string | undefined): EntityTypeDefinition | undefined =>
+  isEntityType(type) ? ENTITY_REGISTRY[type] : undefined;
+
+/**
+ * Finds the entity type whose Neo4j label (or display label) matches one of the given labels.
+ */
+export const entityTypeForLabels = (labels: string[]): CustomNodeType | undefined => {
+  const normalized = labels.map((label) => label.toUpperCase());
+  return ENTITY_TYPES.find(
+    (type) =>
+      normalized.includes(ENTITY_REGISTRY[type].neo4jLabel.toUpperCase()) ||
+      normalized.includes(ENTITY_REGISTRY[type].label.toUpperCase())
+  );
+};
@@ -0,0 +1,59 @@
+import type { CanvasState } from '../models/CanvasModels';
+import type { DocumentStore } from './documentStore/DocumentStore';
+
+/**
+ * Keeps a rolling copy of the working canvas so it can be recovered after a crash or reload.
+ */
+
+const AUTOSAVE = 'autosave';
+// Slot of the only canvas before workspaces, kept for the first workspace tab
+export const CURRENT_AUTOSAVE_SLOT = 'current';
+
+export interface AutosaveSnapshot {
+  diagramId: string;
+  name: string;
+  savedAt: string; // ISO-8601 timestamp
+  // True when the snapshot holds changes that were never explicitly saved
+  hasUnsavedChanges: boolean;
+  state: CanvasState;
+}
+
+export class AutosaveStore {
+  private readonly store: DocumentStore;
+  // Each open canvas autosaves to its own slot
+  private readonly slot: string;
+
+  constructor(store: DocumentStore, slot: string = CURRENT_AUTOSAVE_SLOT) {
+    this.store = store;
+    this.slot = slot;
+  }
+
+  async read(): Promise<AutosaveSnapshot | undefined> {
+    return this.store.get<AutosaveSnapshot>(AUTOSAVE, this.slot);
+  }
+
+  async write(snapshot: Omit<AutosaveSnapshot, 'savedAt'>): Promise<void> {
+    await this.store.put<AutosaveSnapshot>(AUTOSAVE, this.slot, { ...snapshot, savedAt: new Date().toISOString() });
+  }
+
+  async clear(): Promise<void> {
+    await this.store.delete(AUTOSAVE, this.slot);
+  }
+}
+
+/**
+ * Returns a string that only changes when the modelled content of the canvas changes,
+ * ignoring transient React Flow fields such as selection and measured dimensions.
+ */
+export const fingerprintCanvas = (state: CanvasState): string =>
+  JSON.stringify({
+    nodes: state.nodes.map(({ id, type, position, data }) => ({ id, type, position, data })),
+    edges: state.edges.map(({ id, source, target, sourceHandle, targetHandle, data }) => ({
+      id,
+      source,
+      target,
+      sourceHandle,
+      targetHandle,
+      data,
+    })),
+  });
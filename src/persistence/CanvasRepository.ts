@@ -0,0 +1,106 @@
+import type { CanvasState } from '../models/CanvasModels';
+
+/**
+ * Persistence contract for canvas diagrams. The canvas only talks to this interface,
+ * so the storage backend (Neo4j, in-memory, ...) can be swapped without touching the UI.
+ */
+
+export interface DiagramSummary {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO-8601 timestamp of the last save
+  entityCount: number;
+  connectionCount: number;
+}
+
+export interface SavedDiagram extends DiagramSummary {
+  state: CanvasState;
+}
+
+export interface CanvasRepository {
+  /** Creates or replaces the diagram with the given id. */
+  save(id: string, name: string, state: CanvasState): Promise<DiagramSummary>;
+  /** Loads a diagram. Rejects with DiagramNotFoundError when it does not exist. */
+  load(id: string): Promise<SavedDiagram>;
+  /** Lists saved diagrams, most recently updated first. */
+  list(): Promise<DiagramSummary[]>;
+  /** Deletes a diagram. Rejects with DiagramNotFoundError when it does not exist. */
+  delete(id: string): Promise<void>;
+}
+
+export interface DiagramVersion {
+  diagramId: string;
+  version: number;
+  name: string;
+  savedAt: string; // ISO-8601 timestamp
+  entityCount: number;
+  connectionCount: number;
+}
+
+/**
+ * A repository that keeps every save as a new, monotonically increasing version.
+ */
+export interface VersionedCanvasRepository extends CanvasRepository {
+  /** Lists the versions of a diagram, newest first. */
+  listVersions(id: string): Promise<DiagramVersion[]>;
+  /** Loads one version of a diagram. Rejects with DiagramNotFoundError when it does not exist. */
+  loadVersion(id: string, version: number): Promise<SavedDiagram>;
+}
+
+export const isVersionedRepository = (repository: CanvasRepository): repository is VersionedCanvasRepository =>
+  'listVersions' in repository && 'loadVersion' in repository;
+
+/**
+ * A repository that can save a diagram by applying only what changed, instead of replacing it.
+ */
+export interface SyncingCanvasRepository extends CanvasRepository {
+  /**
+   * Saves `after` by applying the changes from `before`, the state the diagram was last saved or
+   * loaded with. Replaces the whole diagram instead when the stored diagram is not `before`.
+   */
+  applySync(id: string, name: string, before: CanvasState, after: CanvasState): Promise<DiagramSummary>;
+}
+
+export const isSyncingRepository = (repository: CanvasRepository): repository is SyncingCanvasRepository =>
+  'applySync' in repository;
+
+/**
+ * A repository backed by a graph database, which can also open graph data created outside the
+ * modeler (nodes that belong to no saved diagram) as a canvas.
+ */
+export interface GraphSourceRepository extends CanvasRepository {
+  /**
+   * Reads the graph data that belongs to no saved diagram, laid out automatically. Only nodes with
+   * an entity type's label are read, up to a limit.
+   */
+  readGraph(): Promise<GraphReadResult>;
+}
+
+export interface GraphReadResult {
+  state: CanvasState;
+  // More nodes exist than were read
+  truncated: boolean;
+}
+
+export const isGraphSourceRepository = (repository: CanvasRepository): repository is GraphSourceRepository =>
+  'readGraph' in repository;
+
+// Base class for every error raised by a repository, so the UI can show a single message
+export class RepositoryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RepositoryError';
+  }
+}
+
+export class DiagramNotFoundError extends RepositoryError {
+  constructor(id: string, version?: number) {
+    super(version === undefined ? `Diagram "${id}" does not exist.` : `Version ${version} of diagram "${id}" does not exist.`);
+    this.name = 'DiagramNotFoundError';
+  }
+}
+
+/**
+ * Sorts summaries most recently updated first.
+ */
+export const byMostRecent = (a: DiagramSummary, b: DiagramSummary): number => b.updatedAt.localeCompare(a.updatedAt);
@@ -0,0 +1,160 @@
+import type { CanvasState } from '../models/CanvasModels';
+import type { DocumentStore } from './documentStore/DocumentStore';
+import {
+  byMostRecent,
+  DiagramNotFoundError,
+  type DiagramSummary,
+  type DiagramVersion,
+  type SavedDiagram,
+  type VersionedCanvasRepository,
+} from './CanvasRepository';
+
+/**
+ * Document-store implementation of the canvas repository (README Approach 1).
+ *
+ * The canvas JSON is stored as-is, so it can later serve as the template for the Neo4j graph.
+ * Every save appends a new version; the `diagrams` collection tracks the latest one and lists
+ * them all, so they can be listed without reading their canvases.
+ */
+
+const DIAGRAMS = 'diagrams';
+const VERSIONS = 'diagram_versions';
+
+interface DiagramDocument extends DiagramSummary {
+  latestVersion: number;
+  // Every version, without its canvas; absent on diagrams saved before versions were listed here
+  versions?: DiagramVersion[];
+}
+
+interface VersionDocument extends DiagramVersion {
+  state: CanvasState;
+}
+
+const versionKey = (id: string, version: number): string => `${id}@${version}`;
+
+const toSummary = (diagram: DiagramDocument): DiagramSummary => ({
+  id: diagram.id,
+  name: diagram.name,
+  updatedAt: diagram.updatedAt,
+  entityCount: diagram.entityCount,
+  connectionCount: diagram.connectionCount,
+});
+
+const toVersion = (document: VersionDocument): DiagramVersion => ({
+  diagramId: document.diagramId,
+  version: document.version,
+  name: document.name,
+  savedAt: document.savedAt,
+  entityCount: document.entityCount,
+  connectionCount: document.connectionCount,
+});
+
+export class DocumentCanvasRepository implements VersionedCanvasRepository {
+  private readonly store: DocumentStore;
+
+  constructor(store: DocumentStore) {
+    this.store = store;
+  }
+
+  async save(id: string, name: string, state: CanvasState): Promise<DiagramSummary> {
+    const savedAt = new Date().toISOString();
+    const document: VersionDocument = {
+      diagramId: id,
+      version: ((await this.store.get<DiagramDocument>(DIAGRAMS, id))?.latestVersion ?? 0) + 1,
+      name,
+      savedAt,
+      entityCount: state.nodes.length,
+      connectionCount: state.edges.length,
+      state: structuredClone(state),
+    };
+
+    // Creating the version document claims its number: when a concurrent save claimed it first, try the next one.
+    // The version is written before the pointer to it, so an interrupted save never points at a missing version.
+    while (!(await this.store.putIfUnchanged(VERSIONS, versionKey(id, document.version), undefined, document))) {
+      document.version++;
+    }
+
+    // Concurrent saves may update the pointer in any order, so it only ever moves forward
+    for (;;) {
+      const existing = await this.store.get<DiagramDocument>(DIAGRAMS, id);
+      const versions = [...(existing ? await this.versionsOf(existing) : []), toVersion(document)];
+      const diagram: DiagramDocument =
+        existing && existing.latestVersion > document.version
+          ? { ...existing, versions }
+          : {
+              id,
+              name,
+              updatedAt: savedAt,
+              entityCount: document.entityCount,
+              connectionCount: document.connectionCount,
+              latestVersion: document.version,
+              versions,
+            };
+      if (await this.store.putIfUnchanged(DIAGRAMS, id, existing, diagram)) {
+        return toSummary(diagram);
+      }
+    }
+  }
+
+  async load(id: string): Promise<SavedDiagram> {
+    const diagram = await this.store.get<DiagramDocument>(DIAGRAMS, id);
+    if (!diagram) {
+      throw new DiagramNotFoundError(id);
+    }
+    return this.loadVersion(id, diagram.latestVersion);
+  }
+
+  async list(): Promise<DiagramSummary[]> {
+    const diagrams = await this.store.list<DiagramDocument>(DIAGRAMS);
+    return diagrams.map(toSummary).sort(byMostRecent);
+  }
+
+  async delete(id: string): Promise<void> {
+    const diagram = await this.store.get<DiagramDocument>(DIAGRAMS, id);
+    if (!diagram) {
+      throw new DiagramNotFoundError(id);
+    }
+    await this.store.delete(DIAGRAMS, id);
+    for (let version = 1; version <= diagram.latestVersion; version++) {
+      await this.store.delete(VERSIONS, versionKey(id, version));
+    }
+  }
+
+  async listVersions(id: string): Promise<DiagramVersion[]> {
+    const diagram = await this.store.get<DiagramDocument>(DIAGRAMS, id);
+    if (!diagram) {
+      throw new DiagramNotFoundError(id);
+    }
+    return (await this.versionsOf(diagram)).sort((a, b) => b.version - a.version);
+  }
+
+  // Diagrams saved before versions were listed on them have their versions read one by one
+  private async versionsOf(diagram: DiagramDocument): Promise<DiagramVersion[]> {
+    if (diagram.versions) {
+      return [...diagram.versions];
+    }
+    const versions: DiagramVersion[] = [];
+    for (let version = 1; version <= diagram.latestVersion; version++) {
+      const document = await this.store.get<VersionDocument>(VERSIONS, versionKey(diagram.id, version));
+      if (document) {
+        versions.push(toVersion(document));
+      }
+    }
+    return versions;
+  }
+
+  async loadVersion(id: string, version: number): Promise<SavedDiagram> {
+    const document = await this.store.get<VersionDocument>(VERSIONS, versionKey(id, version));
+    if (!document) {
+      throw new DiagramNotFoundError(id, version);
+    }
+    return {
+      id,
+      name: document.name,
+      updatedAt: document.savedAt,
+      entityCount: document.entityCount,
+      connectionCount: document.connectionCount,
+      state: document.state,
+    };
+  }
+}
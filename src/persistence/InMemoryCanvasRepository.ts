@@ -0,0 +1,51 @@
+import type { CanvasState } from '../models/CanvasModels';
+import { apocToCanvas, canvasToApoc, type ApocGraph } from '../graph/apocConverter';
+import {
+  byMostRecent,
+  DiagramNotFoundError,
+  type CanvasRepository,
+  type DiagramSummary,
+  type SavedDiagram,
+} from './CanvasRepository';
+
+/**
+ * In-memory stand-in for the Neo4j repository.
+ *
+ * Diagrams are held as APOC graphs, going through the same canvas-to-graph conversion as the
+ * Neo4j adapter, so anything the database would drop (e.g. connections with no inferable
+ * relationship) is dropped here too.
+ */
+export class InMemoryCanvasRepository implements CanvasRepository {
+  private readonly diagrams = new Map<string, { summary: DiagramSummary; graph: ApocGraph }>();
+
+  async save(id: string, name: string, state: CanvasState): Promise<DiagramSummary> {
+    const graph = structuredClone(canvasToApoc(state));
+    const summary: DiagramSummary = {
+      id,
+      name,
+      updatedAt: new Date().toISOString(),
+      entityCount: graph.nodes.length,
+      connectionCount: graph.relationships.length,
+    };
+    this.diagrams.set(id, { summary, graph });
+    return { ...summary };
+  }
+
+  async load(id: string): Promise<SavedDiagram> {
+    const diagram = this.diagrams.get(id);
+    if (!diagram) {
+      throw new DiagramNotFoundError(id);
+    }
+    return { ...diagram.summary, state: apocToCanvas(structuredClone(diagram.graph)) };
+  }
+
+  async list(): Promise<DiagramSummary[]> {
+    return [...this.diagrams.values()].map(({ summary }) => ({ ...summary })).sort(byMostRecent);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.diagrams.delete(id)) {
+      throw new DiagramNotFoundError(id);
+    }
+  }
+}
@@ -0,0 +1,394 @@
+import neo4j, { type Driver, type ManagedTransaction, type Session } from 'neo4j-driver';
+import type { CanvasState } from '../models/CanvasModels';
+import { apocToCanvas, canvasToApoc, type ApocGraph } from '../graph/apocConverter';
+import { diffCanvas } from '../graph/canvasDiff';
+import { propertyAssignment, quoteIdentifier } from '../graph/cypherGenerator';
+import { planSync } from '../graph/syncPlanner';
+import {
+  ENTITY_REGISTRY,
+  ENTITY_TYPES,
+  entityTypeForLabels,
+  getEntityDefinition,
+  getRelationshipDefinition,
+  type EntityPropertyDefinition,
+} from '../models/entityRegistry';
+import { fingerprintCanvas } from './AutosaveStore';
+import {
+  DiagramNotFoundError,
+  RepositoryError,
+  type DiagramSummary,
+  type GraphReadResult,
+  type GraphSourceRepository,
+  type SavedDiagram,
+  type SyncingCanvasRepository,
+} from './CanvasRepository';
+
+/**
+ * Neo4j (Bolt) implementation of the canvas repository.
+ *
+ * Each diagram is a `(:Diagram {id})` node. Its entities and relationships are written as the
+ * inferred graph (README Approach 2), tagged with `diagram_id` and carrying their UI metadata as
+ * properties. A save replaces the whole diagram inside a single write transaction, while
+ * `applySync` runs the sync plan for what changed since the last save and refreshes the UI
+ * metadata. Graph data written by other tools (no `diagram_id`) can be opened with `readGraph`.
+ */
+
+export interface Neo4jConnectionConfig {
+  uri: string;
+  user: string;
+  password: string;
+  database?: string;
+}
+
+// Neo4j properties cannot hold maps, so `positionAbsolute` is flattened into two properties
+const toNeo4jProperties = (properties: Record<string, unknown>): Record<string, unknown> => {
+  const { positionAbsolute, ...rest } = properties;
+  const flattened: Record<string, unknown> = {};
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) {
+      flattened[key] = value;
+    }
+  });
+  if (positionAbsolute && typeof positionAbsolute === 'object') {
+    const { x, y } = positionAbsolute as { x: number; y: number };
+    flattened.positionAbsolute_x = x;
+    flattened.positionAbsolute_y = y;
+  }
+  return flattened;
+};
+
+// Date properties are read back as ISO strings, as the canvas holds them (saves write them with `date()`)
+const fromNeo4jProperties = (properties: Record<string, unknown>): Record<string, unknown> => {
+  const { positionAbsolute_x: x, positionAbsolute_y: y, ...rest } = properties;
+  const values = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, neo4j.isDate(value) ? value.toString() : value]));
+  return typeof x === 'number' && typeof y === 'number' ? { ...values, positionAbsolute: { x, y } } : values;
+};
+
+// Splits properties into those the registry declares, written through `propertyAssignment` so that
+// dates are stored as Neo4j dates (as the sync plan writes them), and the rest, written as they are
+const splitDeclared = (
+  properties: Record<string, unknown>,
+  definitions: EntityPropertyDefinition[]
+): { declared: Record<string, unknown>; rest: Record<string, unknown> } => {
+  const keys = new Set(definitions.map(({ key }) => key));
+  const flattened = toNeo4jProperties(properties);
+  return {
+    declared: Object.fromEntries(Object.entries(flattened).filter(([key]) => keys.has(key))),
+    rest: Object.fromEntries(Object.entries(flattened).filter(([key]) => !keys.has(key))),
+  };
+};
+
+// Properties of a saved diagram that only the canvas uses, which the sync plan leaves alone
+const NODE_UI_PROPERTIES = ['positionAbsolute_x', 'positionAbsolute_y', 'selected', 'width', 'height', 'ui_aliases', 'ui_group_of', 'ui_group', 'ui_member'];
+const RELATIONSHIP_UI_PROPERTIES = ['ui_connector', 'source', 'sourceHandle', 'target', 'targetHandle'];
+
+// Every UI property, null when unset so that `SET x += ui` removes it
+const uiProperties = (properties: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+  const flattened = toNeo4jProperties(properties);
+  return Object.fromEntries(keys.map((key) => [key, flattened[key] ?? null]));
+};
+
+/**
+ * Short digest (cyrb53) of the canvas a diagram was saved from, taken as it would be loaded back,
+ * so `applySync` can tell whether it starts from the stored diagram.
+ */
+const canvasDigest = (state: CanvasState): string => {
+  const text = fingerprintCanvas(apocToCanvas(canvasToApoc(state)));
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const char = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Upper bound on the nodes `readGraph` puts on the canvas
+const GRAPH_READ_LIMIT = 1000;
+// Labels `readGraph` reads, upper-cased: each entity type's Neo4j label and display label, as `entityTypeForLabels` matches them
+const ENTITY_LABELS = [...new Set(ENTITY_TYPES.flatMap((type) => [ENTITY_REGISTRY[type].neo4jLabel, ENTITY_REGISTRY[type].label]))].map(
+  (label) => label.toUpperCase()
+);
+
+const toSummary = (record: Record<string, unknown>): DiagramSummary => ({
+  id: record.id as string,
+  name: record.name as string,
+  updatedAt: record.updatedAt as string,
+  entityCount: record.entityCount as number,
+  connectionCount: record.connectionCount as number,
+});
+
+export class Neo4jCanvasRepository implements GraphSourceRepository, SyncingCanvasRepository {
+  private readonly driver: Driver;
+  private readonly database?: string;
+
+  constructor(config: Neo4jConnectionConfig) {
+    this.driver = neo4j.driver(config.uri, neo4j.auth.basic(config.user, config.password), {
+      disableLosslessIntegers: true,
+    });
+    this.database = config.database;
+  }
+
+  async save(id: string, name: string, state: CanvasState): Promise<DiagramSummary> {
+    const graph = canvasToApoc(state);
+    const summary = this.summarize(id, name, graph);
+
+    await this.run('save', (session) =>
+      session.executeWrite(async (tx) => {
+        await this.writeSummary(tx, summary, canvasDigest(state));
+        await this.replaceGraph(tx, id, graph);
+      })
+    );
+    return summary;
+  }
+
+  async applySync(id: string, name: string, before: CanvasState, after: CanvasState): Promise<DiagramSummary> {
+    const graph = canvasToApoc(after);
+    const summary = this.summarize(id, name, graph);
+    const beforeDigest = canvasDigest(before);
+
+    await this.run('save', (session) =>
+      session.executeWrite(async (tx) => {
+        const stored = await tx.run(`MATCH (d:Diagram {id: $id}) RETURN d.canvasDigest AS digest`, { id });
+        const isBefore = stored.records.length > 0 && stored.records[0].get('digest') === beforeDigest;
+        await this.writeSummary(tx, summary, canvasDigest(after));
+        // A new diagram, or one saved elsewhere since `before`, is replaced as a whole
+        if (!isBefore) {
+          await this.replaceGraph(tx, id, graph);
+          return;
+        }
+        for (const { query, params } of planSync(diffCanvas(before, after), after, { diagramId: id })) {
+          await tx.run(query, params);
+        }
+        await this.writeUiProperties(tx, id, graph);
+      })
+    );
+    return summary;
+  }
+
+  async load(id: string): Promise<SavedDiagram> {
+    return this.run('load', (session) =>
+      session.executeRead(async (tx) => {
+        const diagram = await tx.run(`MATCH (d:Diagram {id: $id}) RETURN d {.*} AS diagram`, { id });
+        if (diagram.records.length === 0) {
+          throw new DiagramNotFoundError(id);
+        }
+
+        const nodes = await tx.run(
+          `MATCH (n {diagram_id: $id}) WHERE NOT n:Diagram
+           RETURN n.ui_id AS id, labels(n) AS labels, properties(n) AS properties`,
+          { id }
+        );
+        const relationships = await tx.run(
+          `MATCH (a {diagram_id: $id})-[r]->(b {diagram_id: $id})
+           RETURN r.ui_id AS id, type(r) AS type, a.ui_id AS start, b.ui_id AS end, properties(r) AS properties`,
+          { id }
+        );
+
+        const graph: ApocGraph = {
+          nodes: nodes.records.map((record) => ({
+            id: record.get('id'),
+            labels: record.get('labels'),
+            properties: fromNeo4jProperties(record.get('properties')),
+          })),
+          relationships: relationships.records.map((record) => ({
+            id: record.get('id'),
+            type: record.get('type'),
+            start: record.get('start'),
+            end: record.get('end'),
+            properties: fromNeo4jProperties(record.get('properties')),
+          })),
+        };
+        return { ...toSummary(diagram.records[0].get('diagram')), state: apocToCanvas(graph) };
+      })
+    );
+  }
+
+  async list(): Promise<DiagramSummary[]> {
+    return this.run('list', async (session) => {
+      const result = await session.executeRead((tx) =>
+        tx.run(`MATCH (d:Diagram) RETURN d {.*} AS diagram ORDER BY d.updatedAt DESC`)
+      );
+      return result.records.map((record) => toSummary(record.get('diagram')));
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run('delete', (session) =>
+      session.executeWrite(async (tx) => {
+        const diagram = await tx.run(`MATCH (d:Diagram {id: $id}) RETURN d.id AS id`, { id });
+        if (diagram.records.length === 0) {
+          throw new DiagramNotFoundError(id);
+        }
+        await tx.run(`MATCH (n {diagram_id: $id}) DETACH DELETE n`, { id });
+        await tx.run(`MATCH (d:Diagram {id: $id}) DETACH DELETE d`, { id });
+      })
+    );
+  }
+
+  async readGraph(): Promise<GraphReadResult> {
+    return this.run('read', (session) =>
+      session.executeRead(async (tx) => {
+        // One node more than the limit is read, to tell whether there are more
+        const result = await tx.run(
+          `MATCH (n) WHERE n.diagram_id IS NULL AND any(label IN labels(n) WHERE toUpper(label) IN $labels)
+           RETURN elementId(n) AS id, labels(n) AS labels, properties(n) AS properties
+           LIMIT toInteger($limit)`,
+          { labels: ENTITY_LABELS, limit: GRAPH_READ_LIMIT + 1 }
+        );
+        const nodes = result.records.slice(0, GRAPH_READ_LIMIT);
+        const ids = nodes.map((record) => record.get('id'));
+        const relationships = await tx.run(
+          `MATCH (a)-[r]->(b) WHERE elementId(a) IN $ids AND elementId(b) IN $ids
+           RETURN elementId(r) AS id, type(r) AS type, elementId(a) AS start, elementId(b) AS end,
+                  properties(r) AS properties`,
+          { ids }
+        );
+
+        const state = apocToCanvas({
+          nodes: nodes.map((record) => ({
+            id: record.get('id'),
+            labels: record.get('labels'),
+            properties: fromNeo4jProperties(record.get('properties')),
+          })),
+          relationships: relationships.records.map((record) => ({
+            id: record.get('id'),
+            type: record.get('type'),
+            start: record.get('start'),
+            end: record.get('end'),
+            properties: fromNeo4jProperties(record.get('properties')),
+          })),
+        });
+        return { state, truncated: result.records.length > GRAPH_READ_LIMIT };
+      })
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+
+  private summarize(id: string, name: string, graph: ApocGraph): DiagramSummary {
+    return {
+      id,
+      name,
+      updatedAt: new Date().toISOString(),
+      entityCount: graph.nodes.length,
+      connectionCount: graph.relationships.length,
+    };
+  }
+
+  private async writeSummary(tx: ManagedTransaction, summary: DiagramSummary, digest: string): Promise<void> {
+    await tx.run(
+      `MERGE (d:Diagram {id: $id})
+       SET d.name = $name, d.updatedAt = $updatedAt,
+           d.entityCount = $entityCount, d.connectionCount = $connectionCount, d.canvasDigest = $digest`,
+      { ...summary, digest }
+    );
+  }
+
+  private async replaceGraph(tx: ManagedTransaction, diagramId: string, graph: ApocGraph): Promise<void> {
+    await tx.run(`MATCH (n {diagram_id: $id}) WHERE NOT n:Diagram DETACH DELETE n`, { id: diagramId });
+    await this.writeGraph(tx, diagramId, graph);
+  }
+
+  // Brings layout, selection, references and groups up to date after the sync plan has run
+  private async writeUiProperties(tx: ManagedTransaction, diagramId: string, graph: ApocGraph): Promise<void> {
+    const nodesByLabel = new Map<string, Record<string, unknown>[]>();
+    graph.nodes.forEach((node) => {
+      const rows = nodesByLabel.get(node.labels[0]) ?? [];
+      rows.push({ ui_id: node.id, ui: uiProperties(node.properties, NODE_UI_PROPERTIES) });
+      nodesByLabel.set(node.labels[0], rows);
+    });
+    for (const [label, rows] of nodesByLabel) {
+      await tx.run(
+        `UNWIND $rows AS row
+         MATCH (n:${quoteIdentifier(label)} {diagram_id: $diagramId, ui_id: row.ui_id})
+         SET n += row.ui`,
+        { rows, diagramId }
+      );
+    }
+
+    const relationshipsByType = new Map<string, Record<string, unknown>[]>();
+    graph.relationships.forEach((relationship) => {
+      const rows = relationshipsByType.get(relationship.type) ?? [];
+      rows.push({ ui_id: relationship.id, ui: uiProperties(relationship.properties, RELATIONSHIP_UI_PROPERTIES) });
+      relationshipsByType.set(relationship.type, rows);
+    });
+    for (const [type, rows] of relationshipsByType) {
+      await tx.run(
+        `UNWIND $rows AS row
+         MATCH ()-[r:${quoteIdentifier(type)} {diagram_id: $diagramId, ui_id: row.ui_id}]->()
+         SET r += row.ui`,
+        { rows, diagramId }
+      );
+    }
+  }
+
+  // Labels and relationship types cannot be parameterized, so rows are batched per label / type
+  private async writeGraph(tx: ManagedTransaction, diagramId: string, graph: ApocGraph): Promise<void> {
+    const labelsById = new Map(graph.nodes.map((node) => [node.id, node.labels[0]]));
+
+    const nodesByLabel = new Map<string, Record<string, unknown>[]>();
+    graph.nodes.forEach((node) => {
+      const definitions = getEntityDefinition(entityTypeForLabels(node.labels))?.properties ?? [];
+      const { declared, rest } = splitDeclared(node.properties, definitions);
+      const rows = nodesByLabel.get(node.labels[0]) ?? [];
+      rows.push({ ui: rest, properties: declared });
+      nodesByLabel.set(node.labels[0], rows);
+    });
+    for (const [label, rows] of nodesByLabel) {
+      const assignments = (getEntityDefinition(entityTypeForLabels([label]))?.properties ?? []).map(propertyAssignment('n'));
+      await tx.run(
+        `UNWIND $rows AS row
+         CREATE (n:${quoteIdentifier(label)})
+         SET n = row.ui, n.diagram_id = $diagramId${assignments.map((assignment) => `, ${assignment}`).join('')}`,
+        { rows, diagramId }
+      );
+    }
+
+    const relationshipsByKey = new Map<string, { type: string; startLabel: string; endLabel: string; rows: Record<string, unknown>[] }>();
+    graph.relationships.forEach((relationship) => {
+      const startLabel = labelsById.get(relationship.start);
+      const endLabel = labelsById.get(relationship.end);
+      if (!startLabel || !endLabel) {
+        return;
+      }
+      const key = `${relationship.type}:${startLabel}:${endLabel}`;
+      const group = relationshipsByKey.get(key) ?? { type: relationship.type, startLabel, endLabel, rows: [] };
+      const { declared, rest } = splitDeclared(relationship.properties, getRelationshipDefinition(relationship.type)?.properties ?? []);
+      group.rows.push({ start: relationship.start, end: relationship.end, ui: rest, properties: declared });
+      relationshipsByKey.set(key, group);
+    });
+    for (const { type, startLabel, endLabel, rows } of relationshipsByKey.values()) {
+      const assignments = (getRelationshipDefinition(type)?.properties ?? []).map(propertyAssignment('r'));
+      await tx.run(
+        `UNWIND $rows AS row
+         MATCH (a:${quoteIdentifier(startLabel)} {diagram_id: $diagramId, ui_id: row.start})
+         MATCH (b:${quoteIdentifier(endLabel)} {diagram_id: $diagramId, ui_id: row.end})
+         CREATE (a)-[r:${quoteIdentifier(type)}]->(b)
+         SET r = row.ui, r.diagram_id = $diagramId${assignments.map((assignment) => `, ${assignment}`).join('')}`,
+        { rows, diagramId }
+      );
+    }
+  }
+
+  // Opens a session for one operation and wraps driver failures in a RepositoryError
+  private async run<T>(operation: string, work: (session: Session) => Promise<T>): Promise<T> {
+    const session = this.driver.session(this.database ? { database: this.database } : {});
+    try {
+      return await work(session);
+    } catch (err) {
+      if (err instanceof RepositoryError) {
+        throw err;
+      }
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new RepositoryError(`Failed to ${operation} diagram in Neo4j: ${reason}`, { cause: err });
+    } finally {
+      await session.close();
+    }
+  }
+}
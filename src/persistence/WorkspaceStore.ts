@@ -0,0 +1,48 @@
+import { CURRENT_AUTOSAVE_SLOT } from './AutosaveStore';
+import type { DocumentStore } from './documentStore/DocumentStore';
+
+/**
+ * Remembers which diagrams are open in the workspace tabs, so they reopen after a reload.
+ * Each tab's canvas is recovered from its own autosave slot, named after the tab id.
+ */
+
+const WORKSPACE = 'workspace';
+const CURRENT = 'current';
+
+export interface WorkspaceLayout {
+  tabIds: string[];
+  activeTabId: string;
+}
+
+// A single tab, which picks up the autosave of the canvas from before workspaces existed
+export const DEFAULT_WORKSPACE_LAYOUT: WorkspaceLayout = {
+  tabIds: [CURRENT_AUTOSAVE_SLOT],
+  activeTabId: CURRENT_AUTOSAVE_SLOT,
+};
+
+const isWorkspaceLayout = (value: unknown): value is WorkspaceLayout => {
+  const layout = value as WorkspaceLayout | undefined;
+  return (
+    Array.isArray(layout?.tabIds) &&
+    layout.tabIds.length > 0 &&
+    layout.tabIds.every((id) => typeof id === 'string') &&
+    layout.tabIds.includes(layout.activeTabId)
+  );
+};
+
+export class WorkspaceStore {
+  private readonly store: DocumentStore;
+
+  constructor(store: DocumentStore) {
+    this.store = store;
+  }
+
+  async read(): Promise<WorkspaceLayout> {
+    const layout = await this.store.get<unknown>(WORKSPACE, CURRENT);
+    return isWorkspaceLayout(layout) ? layout : DEFAULT_WORKSPACE_LAYOUT;
+  }
+
+  async write(layout: WorkspaceLayout): Promise<void> {
+    await this.store.put<WorkspaceLayout>(WORKSPACE, CURRENT, layout);
+  }
+}
@@ -0,0 +1,326 @@
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import {
+  ENTITY_REGISTRY,
+  ENTITY_TYPES,
+  entityTypeForLabels,
+  getRelationshipDefinition,
+  isEntityType,
+} from '../models/entityRegistry';
+import { validateEntityProperties, validateProperties, type EntityProperties } from '../models/entityProperties';
+import { allowedRelationships, inferEdgeRelationship } from '../graph/relationshipInference';
+
+/**
+ * Versioned JSON format for the canvas state, with validation and migration of older shapes.
+ *
+ *   v0  `BusinessModelCanvas` shape: node `type` is the display label ('Company') and `data`
+ *       holds `{ type, name }` plus the `onNameChange` / `onNodeDelete` callbacks.
+ *   v1  `{ nodes, edges }` as copied by the original Save button (README format), without
+ *       relationship data on edges.
+ *   v2  current format: `schemaVersion: 2`, inferred relationship data on every edge and
+ *       typed properties on nodes and edges.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface CanvasDocument extends CanvasState {
+  schemaVersion: number;
+}
+
+export interface ImportIssue {
+  path: string; // e.g. `nodes[3].position.x`
+  message: string;
+}
+
+export type ImportResult =
+  | { ok: true; state: CanvasState; fromVersion: number; warnings: ImportIssue[] }
+  | { ok: false; errors: ImportIssue[] };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Serializes the canvas state into the current document format.
+ */
+export const toCanvasDocument = (state: CanvasState): CanvasDocument => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  nodes: state.nodes,
+  edges: state.edges,
+});
+
+/**
+ * Works out which schema version a parsed document was written in.
+ */
+export const detectSchemaVersion = (document: JsonObject): number => {
+  if (isFiniteNumber(document.schemaVersion)) {
+    return document.schemaVersion;
+  }
+  const nodes = Array.isArray(document.nodes) ? document.nodes : [];
+  const isLegacyNode = (node: unknown) =>
+    isObject(node) &&
+    ((isObject(node.data) && 'type' in node.data) ||
+      (typeof node.type === 'string' && !isEntityType(node.type) && entityTypeForLabels([node.type]) !== undefined));
+  return nodes.some(isLegacyNode) ? 0 : 1;
+};
+
+// v0 -> v1: registry ids as node types, `{ label, name }` data, custom edges
+const migrateV0 = (document: JsonObject): JsonObject => ({
+  nodes: (document.nodes as unknown[]).map((node) => {
+    if (!isObject(node)) {
+      return node;
+    }
+    const data = isObject(node.data) ? node.data : {};
+    const legacyType = typeof data.type === 'string' ? data.type : node.type;
+    const type = typeof legacyType === 'string' ? (entityTypeForLabels([legacyType]) ?? legacyType) : legacyType;
+    const label = typeof type === 'string' && isEntityType(type) ? ENTITY_REGISTRY[type].label : data.type;
+    return { ...node, type, data: { label, name: data.name } };
+  }),
+  edges: (document.edges as unknown[]).map((edge) => {
+    if (!isObject(edge)) {
+      return edge;
+    }
+    // Inline styles and handle ids ('a'/'b') came from the old canvas and do not exist on entity nodes
+    const migrated: JsonObject = { ...edge, sourceHandle: null, targetHandle: null, type: 'customEdge', animated: true };
+    delete migrated.style;
+    return migrated;
+  }),
+});
+
+// v1 -> v2: infer relationship data for edges that have none
+const migrateV1 = (document: JsonObject): JsonObject => {
+  // Nodes are only validated after migration, so relationships are inferred from the well-formed ones
+  const entities = (document.nodes as unknown[]).filter(
+    (node): node is EntityNode => isObject(node) && typeof node.id === 'string'
+  );
+  return {
+    nodes: document.nodes,
+    edges: (document.edges as unknown[]).map((edge) => {
+      if (!isObject(edge) || isObject(edge.data)) {
+        return edge;
+      }
+      const inference = inferEdgeRelationship(edge as unknown as RelationshipEdge, entities);
+      return inference.ok ? { ...edge, data: { ...inference.rule } } : edge;
+    }),
+  };
+};
+
+const MIGRATIONS: Record<number, (document: JsonObject) => JsonObject> = {
+  0: migrateV0,
+  1: migrateV1,
+};
+
+const validateNode = (node: unknown, path: string, errors: ImportIssue[]): void => {
+  if (!isObject(node)) {
+    errors.push({ path, message: 'must be an object.' });
+    return;
+  }
+  if (typeof node.id !== 'string' || !node.id) {
+    errors.push({ path: `${path}.id`, message: 'must be a non-empty string.' });
+  }
+  if (typeof node.type !== 'string' || !isEntityType(node.type)) {
+    errors.push({ path: `${path}.type`, message: `must be one of: ${ENTITY_TYPES.join(', ')}.` });
+  }
+  if (!isObject(node.position) || !isFiniteNumber(node.position.x) || !isFiniteNumber(node.position.y)) {
+    errors.push({ path: `${path}.position`, message: 'must be an object with numeric x and y.' });
+  }
+  if (!isObject(node.data)) {
+    errors.push({ path: `${path}.data`, message: 'must be an object.' });
+    return;
+  }
+  if (typeof node.data.name !== 'string') {
+    errors.push({ path: `${path}.data.name`, message: 'must be a string.' });
+  }
+  if (typeof node.data.label !== 'string') {
+    errors.push({ path: `${path}.data.label`, message: 'must be a string.' });
+  }
+  if (node.data.properties !== undefined) {
+    if (!isObject(node.data.properties)) {
+      errors.push({ path: `${path}.data.properties`, message: 'must be an object.' });
+    } else if (typeof node.type === 'string') {
+      Object.entries(validateEntityProperties(node.type, node.data.properties as EntityProperties)).forEach(
+        ([key, message]) => errors.push({ path: `${path}.data.properties.${key}`, message })
+      );
+    }
+  }
+  if (node.data.aliasOf !== undefined && (typeof node.data.aliasOf !== 'string' || !node.data.aliasOf)) {
+    errors.push({ path: `${path}.data.aliasOf`, message: 'must be the non-empty id of the entity referred to.' });
+  }
+  if (node.data.group !== undefined) {
+    if (!isObject(node.data.group) || !Array.isArray(node.data.group.members)) {
+      errors.push({ path: `${path}.data.group`, message: 'must be an object with a members array.' });
+      return;
+    }
+    node.data.group.members.forEach((member, index) => {
+      const memberPath = `${path}.data.group.members[${index}]`;
+      if (!isObject(member) || typeof member.id !== 'string' || !member.id || typeof member.name !== 'string') {
+        errors.push({ path: memberPath, message: 'must be an object with a non-empty string id and a string name.' });
+      }
+    });
+  }
+};
+
+const validateEdge = (
+  edge: unknown,
+  path: string,
+  nodes: Map<string, string>,
+  errors: ImportIssue[],
+  warnings: ImportIssue[],
+): boolean => {
+  if (!isObject(edge)) {
+    errors.push({ path, message: 'must be an object.' });
+    return false;
+  }
+  if (typeof edge.id !== 'string' || !edge.id) {
+    errors.push({ path: `${path}.id`, message: 'must be a non-empty string.' });
+  }
+  const sourceType = typeof edge.source === 'string' ? nodes.get(edge.source) : undefined;
+  const targetType = typeof edge.target === 'string' ? nodes.get(edge.target) : undefined;
+  if (!sourceType) {
+    errors.push({ path: `${path}.source`, message: 'must be the id of a node in the document.' });
+  }
+  if (!targetType) {
+    errors.push({ path: `${path}.target`, message: 'must be the id of a node in the document.' });
+  }
+  if (!sourceType || !targetType) {
+    return false;
+  }
+
+  if (edge.data === undefined) {
+    // Only possible for migrated documents: the connection was never valid under the current rules
+    warnings.push({ path, message: `dropped: no relationship can be inferred between ${sourceType} and ${targetType}.` });
+    return false;
+  }
+  if (!isObject(edge.data)) {
+    errors.push({ path: `${path}.data`, message: 'must be an object.' });
+    return false;
+  }
+  const allowed = allowedRelationships(sourceType, targetType).map((rule) => rule.relationshipType);
+  if (typeof edge.data.relationshipType !== 'string' || !allowed.includes(edge.data.relationshipType)) {
+    errors.push({
+      path: `${path}.data.relationshipType`,
+      message: allowed.length > 0
+        ? `must be one of: ${allowed.join(', ')}.`
+        : `no relationship is allowed between ${sourceType} and ${targetType}.`,
+    });
+  }
+  if (edge.data.direction !== 'forward' && edge.data.direction !== 'reverse') {
+    errors.push({ path: `${path}.data.direction`, message: "must be 'forward' or 'reverse'." });
+  }
+  if (edge.data.bidirectional !== undefined && typeof edge.data.bidirectional !== 'boolean') {
+    errors.push({ path: `${path}.data.bidirectional`, message: 'must be true or false.' });
+  }
+  if (edge.data.properties !== undefined) {
+    if (!isObject(edge.data.properties)) {
+      errors.push({ path: `${path}.data.properties`, message: 'must be an object.' });
+    } else {
+      const definitions = getRelationshipDefinition(edge.data.relationshipType as string)?.properties ?? [];
+      Object.entries(validateProperties(definitions, edge.data.properties as EntityProperties)).forEach(
+        ([key, message]) => errors.push({ path: `${path}.data.properties.${key}`, message })
+      );
+    }
+  }
+  return true;
+};
+
+/**
+ * Validates a parsed document of any supported version, migrates it to the current format and
+ * returns the canvas state. Every problem is reported with the JSON path it was found at.
+ */
+export const importCanvasDocument = (value: unknown): ImportResult => {
+  if (!isObject(value)) {
+    return { ok: false, errors: [{ path: '$', message: 'must be a JSON object with nodes and edges.' }] };
+  }
+  const errors: ImportIssue[] = [];
+  if (!Array.isArray(value.nodes)) errors.push({ path: 'nodes', message: 'must be an array.' });
+  if (!Array.isArray(value.edges)) errors.push({ path: 'edges', message: 'must be an array.' });
+
+  const fromVersion = detectSchemaVersion(value);
+  if (!Number.isInteger(fromVersion) || fromVersion < 0 || fromVersion > CURRENT_SCHEMA_VERSION) {
+    errors.push({ path: 'schemaVersion', message: `must be an integer between 0 and ${CURRENT_SCHEMA_VERSION}.` });
+  }
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  let document: JsonObject = value;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    document = MIGRATIONS[version](document);
+  }
+
+  const nodes = document.nodes as unknown[];
+  const nodeTypes = new Map<string, string>();
+  nodes.forEach((node, index) => {
+    const path = `nodes[${index}]`;
+    validateNode(node, path, errors);
+    if (isObject(node) && typeof node.id === 'string' && typeof node.type === 'string') {
+      if (nodeTypes.has(node.id)) {
+        errors.push({ path: `${path}.id`, message: `duplicates the id of another node ("${node.id}").` });
+      }
+      nodeTypes.set(node.id, node.type);
+    }
+  });
+
+  const warnings: ImportIssue[] = [];
+  const edgeIds = new Set<string>();
+  const edges = (document.edges as unknown[]).filter((edge, index) => {
+    const path = `edges[${index}]`;
+    const keep = validateEdge(edge, path, nodeTypes, errors, warnings);
+    if (isObject(edge) && typeof edge.id === 'string') {
+      if (edgeIds.has(edge.id)) {
+        errors.push({ path: `${path}.id`, message: `duplicates the id of another edge ("${edge.id}").` });
+      }
+      edgeIds.add(edge.id);
+    }
+    return keep;
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    state: { nodes: nodes as EntityNode[], edges: edges as RelationshipEdge[] },
+    fromVersion,
+    warnings,
+  };
+};
+
+/**
+ * Parses JSON text and imports it as a canvas document.
+ */
+export const parseCanvasJson = (text: string): ImportResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [{ path: '$', message: `is not valid JSON (${err instanceof Error ? err.message : String(err)}).` }] };
+  }
+  return importCanvasDocument(value);
+};
+
+/**
+ * Serializes copied canvas elements for the system clipboard, in the current document format.
+ */
+export const toClipboardText = (elements: CanvasState): string => JSON.stringify(toCanvasDocument(elements));
+
+/**
+ * Reads canvas elements from clipboard text: elements copied on a canvas, or a whole diagram
+ * copied as JSON. Returns undefined when the text is not a canvas document at all, e.g. a copied name.
+ */
+export const parseClipboardText = (text: string): ImportResult | undefined => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  return isObject(value) && Array.isArray(value.nodes) ? importCanvasDocument(value) : undefined;
+};
+
+/**
+ * Formats an issue for display, e.g. `nodes[3].position: must be an object with numeric x and y.`
+ */
+export const formatImportIssue = ({ path, message }: ImportIssue): string => `${path}: ${message}`;
@@ -0,0 +1,49 @@
+import { AutosaveStore } from './AutosaveStore';
+import type { CanvasRepository } from './CanvasRepository';
+import { DocumentCanvasRepository } from './DocumentCanvasRepository';
+import type { DocumentStore } from './documentStore/DocumentStore';
+import { HttpDocumentStore } from './documentStore/HttpDocumentStore';
+import { IndexedDbDocumentStore } from './documentStore/IndexedDbDocumentStore';
+import { InMemoryCanvasRepository } from './InMemoryCanvasRepository';
+import { Neo4jCanvasRepository } from './Neo4jCanvasRepository';
+
+/**
+ * Creates the document store configured for this build, or undefined when none is available.
+ * `VITE_CANVAS_STORE=file` uses the dev server's file-backed store; otherwise IndexedDB is used.
+ */
+export const createDocumentStore = (): DocumentStore | undefined => {
+  const { VITE_CANVAS_STORE } = import.meta.env;
+  if (VITE_CANVAS_STORE === 'memory') {
+    return undefined;
+  }
+  if (VITE_CANVAS_STORE === 'file') {
+    return new HttpDocumentStore();
+  }
+  return typeof indexedDB !== 'undefined' ? new IndexedDbDocumentStore() : undefined;
+};
+
+/**
+ * Creates the repository configured for this build.
+ * Uses Neo4j when `VITE_NEO4J_URI` is set, the document store when one is available,
+ * and the in-memory stand-in otherwise.
+ */
+export const createCanvasRepository = (documentStore: DocumentStore | undefined = createDocumentStore()): CanvasRepository => {
+  const { VITE_NEO4J_URI, VITE_NEO4J_USER, VITE_NEO4J_PASSWORD, VITE_NEO4J_DATABASE } = import.meta.env;
+  if (VITE_NEO4J_URI) {
+    return new Neo4jCanvasRepository({
+      uri: VITE_NEO4J_URI,
+      user: VITE_NEO4J_USER ?? 'neo4j',
+      password: VITE_NEO4J_PASSWORD ?? '',
+      database: VITE_NEO4J_DATABASE,
+    });
+  }
+  return documentStore ? new DocumentCanvasRepository(documentStore) : new InMemoryCanvasRepository();
+};
+
+/**
+ * Creates the autosave store for a canvas, or undefined when no document store is available.
+ */
+export const createAutosaveStore = (
+  documentStore: DocumentStore | undefined = createDocumentStore(),
+  slot?: string
+): AutosaveStore | undefined => (documentStore ? new AutosaveStore(documentStore, slot) : undefined);
@@ -0,0 +1,19 @@
+/**
+ * Minimal collection-based document store (README Approach 1).
+ * Documents are plain JSON values addressed by (collection, key).
+ */
+export interface DocumentStore {
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  put<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<void>;
+  /** Returns every document in the collection, in no particular order. */
+  list<T>(collection: string): Promise<T[]>;
+  /**
+   * Writes a document only if it still equals `expected` (undefined: only if there is none), as a
+   * single atomic step. Returns false, writing nothing, when another write came first.
+   */
+  putIfUnchanged<T>(collection: string, key: string, expected: T | undefined, value: T): Promise<boolean>;
+}
+
+// Documents are JSON values, so two are the same when they serialize the same
+export const sameDocument = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,63 @@
+import { RepositoryError } from '../CanvasRepository';
+import type { DocumentStore } from './DocumentStore';
+
+/**
+ * Document store client for the file-backed store served by the Vite dev server
+ * (see `server/documentStorePlugin.ts`). Only available while running `npm run dev`.
+ */
+export class HttpDocumentStore implements DocumentStore {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = '/__document-store') {
+    this.baseUrl = baseUrl;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const response = await this.fetch(this.url(collection, key), { method: 'GET' }, [404]);
+    return response.status === 404 ? undefined : ((await response.json()) as T);
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.fetch(this.url(collection, key), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(value),
+    });
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.fetch(this.url(collection, key), { method: 'DELETE' });
+  }
+
+  async putIfUnchanged<T>(collection: string, key: string, expected: T | undefined, value: T): Promise<boolean> {
+    const response = await this.fetch(this.url(collection, key), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expected, value }),
+    });
+    return ((await response.json()) as { written: boolean }).written;
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    const response = await this.fetch(this.url(collection), { method: 'GET' });
+    return (await response.json()) as T[];
+  }
+
+  private url(collection: string, key?: string): string {
+    const path = `${this.baseUrl}/${encodeURIComponent(collection)}`;
+    return key === undefined ? path : `${path}/${encodeURIComponent(key)}`;
+  }
+
+  private async fetch(url: string, init: RequestInit, allowedStatuses: number[] = []): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (err) {
+      throw new RepositoryError('The local document store is unreachable. Is the dev server running?', { cause: err });
+    }
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new RepositoryError(`The local document store responded with ${response.status} ${response.statusText}.`);
+    }
+    return response;
+  }
+}
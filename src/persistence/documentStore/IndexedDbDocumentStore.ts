@@ -0,0 +1,89 @@
+import { RepositoryError } from '../CanvasRepository';
+import { sameDocument, type DocumentStore } from './DocumentStore';
+
+const OBJECT_STORE = 'documents';
+
+interface StoredDocument {
+  collection: string;
+  key: string;
+  value: unknown;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Browser document store backed by IndexedDB. All collections share one object store,
+ * keyed on [collection, key] with an index on the collection name.
+ */
+export class IndexedDbDocumentStore implements DocumentStore {
+  private readonly database: Promise<IDBDatabase>;
+
+  constructor(databaseName: string = 'business-modeler') {
+    this.database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(OBJECT_STORE, { keyPath: ['collection', 'key'] });
+        store.createIndex('collection', 'collection');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new RepositoryError('Failed to open the browser document store.', { cause: request.error }));
+    });
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const document = await this.request<StoredDocument | undefined>('readonly', (store) => store.get([collection, key]));
+    return document?.value as T | undefined;
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.request('readwrite', (store) => store.put({ collection, key, value } satisfies StoredDocument));
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete([collection, key]));
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    const documents = await this.request<StoredDocument[]>('readonly', (store) =>
+      store.index('collection').getAll(collection)
+    );
+    return documents.map((document) => document.value as T);
+  }
+
+  async putIfUnchanged<T>(collection: string, key: string, expected: T | undefined, value: T): Promise<boolean> {
+    const database = await this.database;
+    try {
+      // The read and the write share one transaction, which no other transaction can interleave with
+      return await new Promise<boolean>((resolve, reject) => {
+        const transaction = database.transaction(OBJECT_STORE, 'readwrite');
+        const store = transaction.objectStore(OBJECT_STORE);
+        let written = false;
+        const current = store.get([collection, key]);
+        current.onsuccess = () => {
+          if (sameDocument((current.result as StoredDocument | undefined)?.value, expected)) {
+            store.put({ collection, key, value } satisfies StoredDocument);
+            written = true;
+          }
+        };
+        transaction.oncomplete = () => resolve(written);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (err) {
+      throw new RepositoryError('The browser document store request failed.', { cause: err });
+    }
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.database;
+    try {
+      return await promisify<T>(operation(database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE)));
+    } catch (err) {
+      throw new RepositoryError('The browser document store request failed.', { cause: err });
+    }
+  }
+}
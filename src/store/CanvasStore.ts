@@ -0,0 +1,73 @@
+import type { CanvasState } from '../models/CanvasModels';
+import { EMPTY_CANVAS, canvasReducer, type CanvasAction } from './canvasReducer';
+
+// One applied action, with the canvas before and after it
+export interface CanvasEvent {
+  // Increases by one with every event, so consumers can tell they missed none
+  sequence: number;
+  action: CanvasAction;
+  previous: CanvasState;
+  state: CanvasState;
+}
+
+type Listener = () => void;
+type EventListener = (event: CanvasEvent) => void;
+
+/**
+ * The single source of truth for one canvas. Actions are applied in the order they are
+ * dispatched, including actions dispatched by event listeners, and every action that changed
+ * the canvas is emitted as an event once it has been applied.
+ * `subscribe` and `getState` fit React's `useSyncExternalStore`.
+ */
+export class CanvasStore {
+  private state: CanvasState;
+  private sequence = 0;
+  private readonly listeners = new Set<Listener>();
+  private readonly eventListeners = new Set<EventListener>();
+  private readonly queue: CanvasAction[] = [];
+  private isDispatching = false;
+
+  constructor(initialState: CanvasState = EMPTY_CANVAS) {
+    this.state = initialState;
+  }
+
+  getState = (): CanvasState => this.state;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  subscribeEvents = (listener: EventListener): (() => void) => {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  };
+
+  dispatch = (action: CanvasAction): void => {
+    this.queue.push(action);
+    if (this.isDispatching) {
+      return;
+    }
+    this.isDispatching = true;
+    try {
+      for (let next = this.queue.shift(); next; next = this.queue.shift()) {
+        this.apply(next);
+      }
+    } finally {
+      this.isDispatching = false;
+      this.queue.length = 0;
+    }
+  };
+
+  private apply(action: CanvasAction): void {
+    const previous = this.state;
+    const state = canvasReducer(previous, action);
+    if (state === previous) {
+      return;
+    }
+    this.state = state;
+    const event: CanvasEvent = { sequence: ++this.sequence, action, previous, state };
+    this.eventListeners.forEach((listener) => listener(event));
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,49 @@
+import { useLayoutEffect, useState, useSyncExternalStore } from 'react';
+
+type Listener = () => void;
+
+/**
+ * A single value that components read through a selector, so each one re-renders only when the
+ * part it selected changes. Used to pass canvas-wide highlights to thousands of nodes, where a
+ * context value would re-render every node on every change.
+ */
+export class ValueStore<T> {
+  private value: T;
+  private readonly listeners = new Set<Listener>();
+
+  constructor(initialValue: T) {
+    this.value = initialValue;
+  }
+
+  getValue = (): T => this.value;
+
+  setValue = (value: T): void => {
+    if (value === this.value) {
+      return;
+    }
+    this.value = value;
+    this.listeners.forEach((listener) => listener());
+  };
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+}
+
+/**
+ * Reads part of a store's value. The selector should return a primitive (or a stable object),
+ * as the component re-renders whenever the selected value is not identical to the previous one.
+ */
+export const useValueStore = <T, S>(store: ValueStore<T>, select: (value: T) => S): S =>
+  useSyncExternalStore(store.subscribe, () => select(store.getValue()));
+
+/**
+ * Keeps a store, created once, holding the latest value passed in. Readers are updated before
+ * the browser paints, so they never show a stale value.
+ */
+export const useValueStoreFor = <T>(value: T): ValueStore<T> => {
+  const [store] = useState(() => new ValueStore(value));
+  useLayoutEffect(() => store.setValue(value), [store, value]);
+  return store;
+};
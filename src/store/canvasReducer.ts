@@ -0,0 +1,107 @@
+import { addEdge, applyEdgeChanges, applyNodeChanges, type EdgeChange, type NodeChange } from 'reactflow';
+import type { CanvasState, EntityNode, EntityNodeData, RelationshipEdge, RelationshipEdgeData } from '../models/CanvasModels';
+import { applySharedEntities, type SharedEntityData } from '../graph/workspaceUnion';
+
+/**
+ * Every change to the canvas model, as a serializable action, and the reducer applying it.
+ *
+ * Nodes and edges stay plain JSON: components never hold callbacks in `data` or change it in
+ * place, they dispatch one of these actions instead. Commands that work out the whole next
+ * canvas (grouping, pasting, loading a diagram, undo) replace it in one action.
+ */
+export type CanvasAction =
+  // Changes reported by React Flow: moves, selection, measured sizes and deletions
+  | { type: 'applyNodeChanges'; changes: NodeChange[] }
+  | { type: 'applyEdgeChanges'; changes: EdgeChange[] }
+  // A connector drawn between two entities; a second connector between the same handles is ignored
+  | { type: 'connect'; edge: RelationshipEdge }
+  // New elements, optionally becoming the selection
+  | { type: 'addElements'; nodes: EntityNode[]; edges: RelationshipEdge[]; select?: boolean }
+  // Removes entities together with their connectors
+  | { type: 'removeNodes'; ids: string[] }
+  // Updates an entity's data; a new name is shown on its references too
+  | { type: 'updateNodeData'; id: string; patch: Partial<EntityNodeData> }
+  | { type: 'updateEdgeData'; id: string; patch: Partial<RelationshipEdgeData> }
+  | { type: 'replaceEdge'; edge: RelationshipEdge }
+  | { type: 'select'; nodeIds: string[]; edgeIds: string[] }
+  // Brings shared entities edited on another diagram of the workspace up to date
+  | { type: 'applySharedEntities'; shared: ReadonlyMap<string, SharedEntityData> }
+  | { type: 'replaceCanvas'; state: CanvasState };
+
+export const EMPTY_CANVAS: CanvasState = { nodes: [], edges: [] };
+
+// Keeps the state object when neither list changed, so subscribers are not notified for nothing
+const withLists = (state: CanvasState, nodes: EntityNode[], edges: RelationshipEdge[]): CanvasState =>
+  nodes === state.nodes && edges === state.edges ? state : { nodes, edges };
+
+// Like `Array.map`, but returns the list itself when every element is returned unchanged
+const mapList = <T>(list: T[], update: (element: T) => T): T[] => {
+  const next = list.map(update);
+  return next.some((element, index) => element !== list[index]) ? next : list;
+};
+
+export const canvasReducer = (state: CanvasState, action: CanvasAction): CanvasState => {
+  switch (action.type) {
+    case 'applyNodeChanges':
+      return withLists(state, applyNodeChanges(action.changes, state.nodes), state.edges);
+    case 'applyEdgeChanges':
+      return withLists(state, state.nodes, applyEdgeChanges(action.changes, state.edges));
+    case 'connect':
+      return withLists(state, state.nodes, addEdge(action.edge, state.edges));
+    case 'addElements': {
+      const select = (selected: boolean) => <T extends EntityNode | RelationshipEdge>(element: T): T => ({ ...element, selected });
+      return action.select
+        ? {
+            nodes: [...state.nodes.map(select(false)), ...action.nodes.map(select(true))],
+            edges: [...state.edges.map(select(false)), ...action.edges.map(select(true))],
+          }
+        : { nodes: [...state.nodes, ...action.nodes], edges: [...state.edges, ...action.edges] };
+    }
+    case 'removeNodes': {
+      const ids = new Set(action.ids);
+      if (!state.nodes.some((node) => ids.has(node.id))) {
+        return state;
+      }
+      return {
+        nodes: state.nodes.filter((node) => !ids.has(node.id)),
+        edges: state.edges.filter((edge) => !ids.has(edge.source) && !ids.has(edge.target)),
+      };
+    }
+    case 'updateNodeData': {
+      const { id, patch } = action;
+      return withLists(
+        state,
+        mapList(state.nodes, (node) => {
+          if (node.id === id) {
+            return { ...node, data: { ...node.data, ...patch } };
+          }
+          return patch.name !== undefined && node.data.aliasOf === id ? { ...node, data: { ...node.data, name: patch.name } } : node;
+        }),
+        state.edges
+      );
+    }
+    case 'updateEdgeData': {
+      const { id, patch } = action;
+      return withLists(
+        state,
+        state.nodes,
+        mapList(state.edges, (edge) => (edge.id === id ? { ...edge, data: { ...edge.data, ...patch } as RelationshipEdgeData } : edge))
+      );
+    }
+    case 'replaceEdge':
+      return withLists(state, state.nodes, mapList(state.edges, (edge) => (edge.id === action.edge.id ? action.edge : edge)));
+    case 'select': {
+      const nodeIds = new Set(action.nodeIds);
+      const edgeIds = new Set(action.edgeIds);
+      return withLists(
+        state,
+        mapList(state.nodes, (node) => (!!node.selected === nodeIds.has(node.id) ? node : { ...node, selected: nodeIds.has(node.id) })),
+        mapList(state.edges, (edge) => (!!edge.selected === edgeIds.has(edge.id) ? edge : { ...edge, selected: edgeIds.has(edge.id) }))
+      );
+    }
+    case 'applySharedEntities':
+      return withLists(state, applySharedEntities(state.nodes, action.shared), state.edges);
+    case 'replaceCanvas':
+      return action.state;
+  }
+};
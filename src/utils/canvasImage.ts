@@ -0,0 +1,181 @@
+import { getBezierPath, type Position } from 'reactflow';
+import type { CanvasState, EntityNode, RelationshipEdge } from '../models/CanvasModels';
+import { SOURCE_SIDES, TARGET_SIDES, handleSide, type HandleSide } from '../models/connectionHandles';
+import { UNKNOWN_ENTITY_COLOR, getEntityDefinition, getRelationshipDefinition } from '../models/entityRegistry';
+import { formatPropertyValue } from '../models/entityProperties';
+import { escapeXml } from '../graph/graphFormats';
+
+/**
+ * Images of the canvas for embedding in documents: an SVG drawn from the canvas state, with the
+ * cards, entity colours, connector curves and arrowheads of the editor, and a PNG rendered from it.
+ */
+
+// Card size used for nodes React Flow has not measured (e.g. on a hidden canvas)
+const DEFAULT_NODE_SIZE = { width: 192, height: 96 };
+const PADDING = 40;
+const EDGE_COLOR = '#6B7280';
+const FONT = 'system-ui, Avenir, Helvetica, Arial, sans-serif';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const boxOf = (node: EntityNode): Box => ({
+  x: node.position.x,
+  y: node.position.y,
+  width: node.width ?? DEFAULT_NODE_SIZE.width,
+  height: node.height ?? DEFAULT_NODE_SIZE.height,
+});
+
+const anchor = (box: Box, side: HandleSide): { x: number; y: number } => {
+  switch (side) {
+    case 'top':
+      return { x: box.x + box.width / 2, y: box.y };
+    case 'right':
+      return { x: box.x + box.width, y: box.y + box.height / 2 };
+    case 'bottom':
+      return { x: box.x + box.width / 2, y: box.y + box.height };
+    case 'left':
+      return { x: box.x, y: box.y + box.height / 2 };
+  }
+};
+
+const text = (x: number, y: number, content: string, attributes: string): string =>
+  `<text x="${x}" y="${y}" ${attributes}>${escapeXml(content)}</text>`;
+
+const renderNode = (node: EntityNode): string => {
+  const box = boxOf(node);
+  const definition = getEntityDefinition(node.type);
+  const color = (definition?.color ?? UNKNOWN_ENTITY_COLOR).hex;
+  const { label, name, group, aliasOf, properties = {} } = node.data;
+  const subtitle = aliasOf ? `Reference to a ${label}` : group ? `Group of ${group.members.length} ${label} entities` : `${label} Entity`;
+  // Cards have a coloured bottom border; references are dashed all round, as in the editor
+  const card = aliasOf
+    ? `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="12" fill="white" stroke="${color}" stroke-width="2" stroke-dasharray="6 4"/>`
+    : [
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="12" fill="${color}"/>`,
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height - 4}" rx="12" fill="white" stroke="#D1D5DB"/>`,
+      ].join('');
+  const propertyLines = (definition?.properties ?? [])
+    .filter((property) => properties[property.key] !== undefined)
+    .map((property, index) =>
+      text(box.x + 16, box.y + 76 + index * 16, `${property.label}: ${formatPropertyValue(properties[property.key])}`, 'font-size="12" fill="#4B5563"')
+    );
+  return [
+    '<g>',
+    card,
+    text(box.x + 16, box.y + 34, name || `${label} Name...`, `font-size="18" font-weight="700" fill="${name ? '#1F2937' : '#9CA3AF'}"`),
+    text(box.x + 16, box.y + 58, subtitle, 'font-size="14" fill="#6B7280"'),
+    ...propertyLines,
+    '</g>',
+  ].join('');
+};
+
+const renderEdge = (edge: RelationshipEdge, boxes: Map<string, Box>): { svg: string; labelPoint?: { x: number; y: number } } => {
+  const source = boxes.get(edge.source);
+  const target = boxes.get(edge.target);
+  if (!source || !target) {
+    return { svg: '' };
+  }
+  // Connectors saved without handle ids are drawn from the first handle of each kind, as React Flow does
+  const sourceSide = handleSide(edge.sourceHandle) ?? SOURCE_SIDES[0];
+  const targetSide = handleSide(edge.targetHandle) ?? TARGET_SIDES[0];
+  const start = anchor(source, sourceSide);
+  const end = anchor(target, targetSide);
+  const [path, labelX, labelY] = getBezierPath({
+    sourceX: start.x,
+    sourceY: start.y,
+    sourcePosition: sourceSide as Position,
+    targetX: end.x,
+    targetY: end.y,
+    targetPosition: targetSide as Position,
+  });
+  const data = edge.data;
+  const markerStart = data?.bidirectional ? ' marker-start="url(#arrowhead)"' : '';
+  const line = `<path d="${path}" fill="none" stroke="${EDGE_COLOR}" stroke-width="2" marker-end="url(#arrowhead)"${markerStart}/>`;
+  if (!data?.relationshipType) {
+    return { svg: line };
+  }
+
+  const lines = [
+    data.relationshipType,
+    ...(getRelationshipDefinition(data.relationshipType)?.properties ?? [])
+      .filter((property) => data.properties?.[property.key] !== undefined)
+      .map((property) => `${property.label}: ${formatPropertyValue(data.properties?.[property.key])}`),
+  ];
+  // Text widths are estimated, as there is no layout engine to measure them
+  const width = Math.max(...lines.map((line) => line.length)) * 7 + 16;
+  const height = lines.length * 16 + 4;
+  const label = [
+    `<rect x="${labelX - width / 2}" y="${labelY - height / 2}" width="${width}" height="${height}" rx="6" fill="${data.overridden ? '#EEF2FF' : 'white'}" stroke="${data.overridden ? '#A5B4FC' : '#E5E7EB'}"/>`,
+    ...lines.map((content, index) =>
+      text(
+        labelX,
+        labelY - height / 2 + 15 + index * 16,
+        content,
+        `font-size="12" text-anchor="middle" font-weight="${index === 0 ? 600 : 400}" fill="${data.overridden && index === 0 ? '#4338CA' : '#4B5563'}"`
+      )
+    ),
+  ].join('');
+  return { svg: line + label, labelPoint: { x: labelX, y: labelY } };
+};
+
+/**
+ * Draws the canvas as a standalone SVG document, cropped to its content.
+ */
+export const canvasToSvg = (state: CanvasState): string => {
+  const boxes = new Map(state.nodes.map((node) => [node.id, boxOf(node)]));
+  const edges = state.edges.map((edge) => renderEdge(edge, boxes));
+  const points = [
+    ...[...boxes.values()].flatMap((box) => [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+    ]),
+    ...edges.flatMap((edge) => (edge.labelPoint ? [edge.labelPoint] : [])),
+  ];
+  const xs = points.length > 0 ? points.map((point) => point.x) : [0];
+  const ys = points.length > 0 ? points.map((point) => point.y) : [0];
+  const minX = Math.min(...xs) - PADDING;
+  const minY = Math.min(...ys) - PADDING;
+  const width = Math.max(...xs) + PADDING - minX;
+  const height = Math.max(...ys) + PADDING - minY;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${FONT}">`,
+    '<defs>',
+    '<marker id="arrowhead" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">',
+    `<path d="M 0 0 L 10 5 L 0 10 z" fill="${EDGE_COLOR}"/>`,
+    '</marker>',
+    '</defs>',
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="white"/>`,
+    ...edges.map((edge) => edge.svg),
+    ...state.nodes.map(renderNode),
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Renders an SVG document to a PNG image, at the given scale for sharp output on high-DPI screens.
+ */
+export const svgToPng = (svg: string, scale: number = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Failed to render the PNG image.'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render the PNG image.'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to render the diagram as an image.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
@@ -0,0 +1,94 @@
+/**
+ * Parsing of delimited text (CSV, TSV) as exported by spreadsheets, following RFC 4180:
+ * fields may be quoted, a quote inside a quoted field is doubled, and quoted fields may span lines.
+ */
+
+export interface DelimitedTable {
+  headers: string[];
+  // Every row has one field per header
+  rows: string[][];
+  // 1-based line of the text each row starts on, counting the header and skipped blank lines
+  lines: number[];
+}
+
+interface DelimitedRecord {
+  fields: string[];
+  line: number;
+}
+
+const CANDIDATE_DELIMITERS = ['\t', ';', ','];
+
+/**
+ * Guesses the delimiter from the header line: tabs, then semicolons (spreadsheets in locales that
+ * use a decimal comma), then commas.
+ */
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = CANDIDATE_DELIMITERS.map((delimiter) => header.split(delimiter).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? CANDIDATE_DELIMITERS[counts.indexOf(best)] : ',';
+};
+
+const parseRecords = (text: string, delimiter: string): DelimitedRecord[] => {
+  const records: DelimitedRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Quoted fields may span lines, so a record's line is where it starts
+  let line = 1;
+  let recordLine = 1;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '\n' || (char === '\r' && text[index + 1] !== '\n')) {
+        line++;
+      }
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      records.push({ fields: [...record, field], line: recordLine });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    records.push({ fields: [...record, field], line: recordLine });
+  }
+  return records;
+};
+
+/**
+ * Parses delimited text whose first line holds the column headers. Blank lines are skipped,
+ * short rows are padded and extra fields dropped.
+ */
+export const parseDelimited = (text: string, delimiter: string = detectDelimiter(text)): DelimitedTable => {
+  // Spreadsheets often start UTF-8 files with a byte order mark
+  const records = parseRecords(text.replace(/^\uFEFF/, ''), delimiter).filter((record) =>
+    record.fields.some((field) => field.trim() !== '')
+  );
+  const [header, ...rest] = records;
+  const headers = (header?.fields ?? []).map((name) => name.trim());
+  return {
+    headers,
+    rows: rest.map((record) => headers.map((_, column) => record.fields[column] ?? '')),
+    lines: rest.map((record) => record.line),
+  };
+};
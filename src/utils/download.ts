@@ -0,0 +1,11 @@
+/**
+ * Triggers a browser download of the given text or binary content.
+ */
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,80 @@
+/**
+ * A bounded undo/redo stack of state snapshots. Each entry holds the state as it was
+ * before the labelled command ran; undoing swaps it with the current state.
+ */
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  // Consecutive commands sharing a key (a drag, typing into one field) become a single step
+  coalesceKey?: string;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export interface HistoryStep<T> {
+  history: HistoryState<T>;
+  snapshot: T;
+  label: string;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const emptyHistory = <T>(): HistoryState<T> => ({ past: [], future: [] });
+
+/**
+ * Records the state before a command. A new command always clears the redo stack; when it
+ * continues the previous command (same coalesce key) the earlier snapshot is kept instead.
+ */
+export const recordHistory = <T>(
+  history: HistoryState<T>,
+  entry: HistoryEntry<T>,
+  limit = DEFAULT_HISTORY_LIMIT,
+): HistoryState<T> => {
+  const last = history.past[history.past.length - 1];
+  if (entry.coalesceKey !== undefined && last?.coalesceKey === entry.coalesceKey) {
+    return history.future.length === 0 ? history : { past: history.past, future: [] };
+  }
+  return { past: [...history.past, entry].slice(-limit), future: [] };
+};
+
+/** Ends the current coalescing run, so the next command starts a new step even with the same key. */
+export const sealHistory = <T>(history: HistoryState<T>): HistoryState<T> => {
+  const last = history.past[history.past.length - 1];
+  if (last?.coalesceKey === undefined) {
+    return history;
+  }
+  return { past: [...history.past.slice(0, -1), { label: last.label, snapshot: last.snapshot }], future: history.future };
+};
+
+export const undoHistory = <T>(history: HistoryState<T>, current: T): HistoryStep<T> | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
+
+export const redoHistory = <T>(history: HistoryState<T>, current: T): HistoryStep<T> | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
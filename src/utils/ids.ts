@@ -0,0 +1,10 @@
+/**
+ * Generates a unique id for a node or edge, e.g. `node-0b7c…`. Falls back to a time-based id
+ * where `crypto.randomUUID` is unavailable (insecure contexts).
+ */
+export const generateUniqueId = (prefix: string = 'rf'): string => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return `${prefix}-${crypto.randomUUID()}`;
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
@@ -1,8 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { collaborationPlugin } from './server/collaborationPlugin'
+import { documentStorePlugin } from './server/documentStorePlugin'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), documentStorePlugin('.canvas-store'), collaborationPlugin()],
 })